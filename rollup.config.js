@@ -9,30 +9,51 @@ const devDependencies = Object.keys(current_package?.devDependencies || {});
 
 dependencies.push(...devDependencies);
 
-module.exports = {
-	input: "src/index.ts",
-	output: [
-		{
-			file: "dist/index.js",
-			format: "cjs",
-			sourcemap: true,
-		},
-		{
-			file: "dist/index.esm.js",
-			format: "esm",
-			sourcemap: true,
-		},
-	],
-	plugins: [
-		resolve(),
-		commonjs(),
-		typescript({
-			tsconfig: "./tsconfig.json",
-			declaration: true,
-			declarationDir: "./dist",
-			sourceMap: true,
-		}),
-		terser(),
-	],
-	external: dependencies,
-};
+const plugins = () => [
+	resolve(),
+	commonjs(),
+	typescript({
+		tsconfig: "./tsconfig.json",
+		declaration: true,
+		declarationDir: "./dist",
+		sourceMap: true,
+	}),
+	terser(),
+];
+
+module.exports = [
+	{
+		input: "src/index.ts",
+		output: [
+			{
+				file: "dist/index.js",
+				format: "cjs",
+				sourcemap: true,
+			},
+			{
+				file: "dist/index.esm.js",
+				format: "esm",
+				sourcemap: true,
+			},
+		],
+		plugins: plugins(),
+		external: dependencies,
+	},
+	{
+		input: "src/testing/index.ts",
+		output: [
+			{
+				file: "dist/testing.js",
+				format: "cjs",
+				sourcemap: true,
+			},
+			{
+				file: "dist/testing.esm.js",
+				format: "esm",
+				sourcemap: true,
+			},
+		],
+		plugins: plugins(),
+		external: dependencies,
+	},
+];
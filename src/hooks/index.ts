@@ -1,4 +1,7 @@
+export * from "./useAnimatedNumber";
+export * from "./useAnimatedStyle";
 export * from "./useAnimation";
+export * from "./useAnimationInspector";
 export * from "./useBeforeunload";
 export * from "./useCache";
 export * from "./useCallbackRef";
@@ -7,14 +10,21 @@ export * from "./useData";
 export * from "./useDataStorager";
 export * from "./useDebouncedCallback";
 export * from "./useDebouncedEffect";
+export * from "./useDerivedValue";
+export * from "./useDrag";
 export * from "./useEventEmitter";
 export * from "./useEventListener";
 export * from "./useHistory";
 export * from "./useId";
+export * from "./useInterpolation";
+export * from "./useLayoutAnimation";
 export * from "./useLocalStorage";
 export * from "./useMediaQuery";
+export * from "./usePinch";
+export * from "./usePresence";
 export * from "./usePromise";
 export * from "./useRefObserver";
+export * from "./useScrollAnimation";
 export * from "./useSharedValue";
 export * from "./useSharedValues";
 export * from "./useSizeEffect";
@@ -0,0 +1,59 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useAnimatedNumber } from "./index";
+import { advanceFrames, installFrameClock, uninstallFrameClock } from "../../testing";
+
+describe("useAnimatedNumber", () => {
+	it("should tween to a new value and format it", async () => {
+		const format = new Intl.NumberFormat("en-US");
+
+		const { result, rerender } = renderHook(({ value }) => useAnimatedNumber(value, { duration: 200, format }), { initialProps: { value: 1000 } });
+
+		expect(result.current).toBe("1,000");
+
+		rerender({ value: 3000 });
+
+		await waitFor(() => expect(result.current).not.toBe("1,000"), { timeout: 1000 });
+		expect(Number(result.current.replace(",", ""))).toBeLessThan(3000);
+
+		rerender({ value: 2000 });
+
+		await waitFor(() => expect(result.current).toBe("2,000"), { timeout: 1000 });
+	});
+
+	it("should write the text into the element in ref mode", async () => {
+		const element = document.createElement("span");
+		const ref = { current: element };
+
+		const { result, rerender } = renderHook(({ value }) => useAnimatedNumber(value, { from: 0, duration: 200, decimals: 1, ref }), { initialProps: { value: 10 } });
+
+		expect(element.textContent).toBe("0.0");
+
+		await waitFor(() => expect(element.textContent).toBe("10.0"), { timeout: 1000 });
+		expect(result.current).toBe("0.0");
+
+		rerender({ value: 10 });
+
+		expect(result.current).toBe("10.0");
+	});
+
+	it("should keep moving when a new value interrupts the animation", () => {
+		installFrameClock();
+
+		const { result, rerender } = renderHook(({ value }) => useAnimatedNumber(value, { duration: 300, decimals: 2 }), { initialProps: { value: 0 } });
+
+		rerender({ value: 100 });
+		act(() => advanceFrames(9));
+
+		const before = Number(result.current);
+		act(() => advanceFrames(1));
+		const step = Number(result.current) - before;
+
+		rerender({ value: 200 });
+		const position = Number(result.current);
+		act(() => advanceFrames(1));
+
+		expect(Number(result.current) - position).toBeGreaterThan(step / 2);
+
+		uninstallFrameClock();
+	});
+});
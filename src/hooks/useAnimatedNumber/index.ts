@@ -0,0 +1,122 @@
+import { Easing, SharedValue, TimingConfig } from "@ismael1361/animation";
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { createAnimation } from "../useAnimation/createAnimation";
+import { DOMElement } from "../useAnimation/Types";
+
+export interface AnimatedNumberOptions<E extends DOMElement = HTMLElement> {
+	/** Valor inicial exibido na montagem, animado até `value`. Se omitido, a montagem exibe `value` sem animação. */
+	from?: number;
+	/** Duração, em milissegundos, da animação até cada novo valor. Padrão `500`. */
+	duration?: number;
+	/**
+	 * Função de easing da animação. Padrão `Easing.inOut(Easing.quad)`, o mesmo de `timing`, ou `Easing.out(Easing.quad)`
+	 * quando a animação anterior é interrompida, para que o número não pare antes de seguir para o novo valor.
+	 */
+	easing?: TimingConfig["easing"];
+	/**
+	 * Formatação do valor: uma instância de `Intl.NumberFormat` ou uma função que recebe o número e retorna o texto.
+	 * Se omitida, o número é exibido com `decimals` casas decimais.
+	 */
+	format?: Intl.NumberFormat | ((value: number) => string);
+	/** Casas decimais às quais o valor é arredondado antes de ser formatado. Padrão `0` quando `format` é omitido. */
+	decimals?: number;
+	/**
+	 * Se definida, o texto é escrito diretamente em `textContent` do elemento a cada quadro e o componente não é re-renderizado durante a animação.
+	 */
+	ref?: React.RefObject<E>;
+}
+
+const formatNumber = (value: number, { format, decimals }: AnimatedNumberOptions<any>): string => {
+	const rounded = decimals === undefined ? value : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+	if (format instanceof Intl.NumberFormat) return format.format(rounded);
+	if (typeof format === "function") return format(rounded);
+	return rounded.toFixed(decimals ?? 0);
+};
+
+/**
+ * Anima um número até `value` sempre que ele muda e retorna o texto formatado do valor atual, para contadores e indicadores.
+ *
+ * A animação é feita com `timing` sobre um `SharedValue`. Se `value` mudar durante uma animação, uma nova começa a partir
+ * do valor exibido no momento, sem saltos e, por padrão, já em movimento (com `Easing.out`). O componente é re-renderizado apenas quando o texto formatado muda. Com `ref`,
+ * o texto é escrito diretamente no elemento e o componente não é re-renderizado durante a animação.
+ *
+ * @template E O tipo do elemento DOM usado com `ref`.
+ * @param {number} value O valor de destino.
+ * @param {AnimatedNumberOptions<E>} [options={}] As opções `from`, `duration`, `easing`, `format`, `decimals` e `ref`.
+ * @returns {string} O texto formatado do valor atual (com `ref`, o texto da última renderização).
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef } from 'react';
+ * import { useAnimatedNumber } from '@ismael1361/react-use';
+ *
+ * const currency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+ *
+ * const Revenue = ({ total, visitors }) => {
+ *   const ref = useRef<HTMLSpanElement>(null);
+ *
+ *   // Re-renderiza a cada mudança do texto
+ *   const revenue = useAnimatedNumber(total, { from: 0, duration: 800, format: currency });
+ *
+ *   // Escreve o texto diretamente no elemento
+ *   useAnimatedNumber(visitors, { ref, format: (value) => `${value} visitantes` });
+ *
+ *   return (
+ *     <div>
+ *       <strong>{revenue}</strong>
+ *       <span ref={ref} />
+ *     </div>
+ *   );
+ * };
+ * ```
+ */
+export const useAnimatedNumber = <E extends DOMElement = HTMLElement>(value: number, options: AnimatedNumberOptions<E> = {}): string => {
+	const config = useRef(options);
+	config.current = options;
+
+	const current = useMemo(() => new SharedValue(options.from ?? value), []);
+	const [, setText] = useState(() => formatNumber(current.value, options));
+	const controller = useRef<ReturnType<typeof createAnimation>["controller"] | null>(null);
+
+	useLayoutEffect(() => {
+		const element = config.current.ref?.current;
+		if (element) element.textContent = formatNumber(current.value, config.current);
+	});
+
+	useEffect(() => {
+		const event = current.on("change", () => {
+			const formatted = formatNumber(current.value, config.current);
+			const element = config.current.ref?.current;
+
+			if (element) element.textContent = formatted;
+			else setText(formatted);
+		});
+
+		return () => {
+			event.stop();
+			controller.current?.stop({});
+			controller.current = null;
+		};
+	}, [current]);
+
+	useEffect(() => {
+		const interrupted = controller.current?.status === "running";
+		controller.current?.stop({});
+
+		if (current.value === value) {
+			controller.current = null;
+			return;
+		}
+
+		const { duration = 500, easing = interrupted ? Easing.out(Easing.quad) : undefined } = config.current;
+
+		controller.current = createAnimation(function* () {
+			yield* this.timing(current, { from: current.value, to: value, duration, easing });
+		}, {}).controller;
+
+		controller.current.start();
+	}, [value]);
+
+	return formatNumber(current.value, options);
+};
@@ -0,0 +1,58 @@
+import { renderHook, act } from "@testing-library/react";
+import { useAnimation } from "../useAnimation";
+import { useAnimatedStyle } from "./index";
+
+describe("useAnimatedStyle", () => {
+	it("should write animated values to the element without re-rendering", async () => {
+		const element = document.createElement("div");
+		const ref = { current: element };
+		let renders = 0;
+
+		const { result } = renderHook(() => {
+			renders++;
+
+			const animation = useAnimation(
+				function* (state) {
+					yield* this.parallel(
+						() => this.timing(state.opacity, { to: 1, duration: 200, easing: this.Easing.linear }),
+						() => this.timing(state.y, { to: 0, duration: 200, easing: this.Easing.linear }),
+					);
+				},
+				{ opacity: 0, y: 40 },
+				[],
+				{ rerender: false },
+			);
+
+			useAnimatedStyle(
+				ref,
+				(state) => ({
+					opacity: state.opacity.value.toFixed(2),
+					transform: `translateY(${Math.round(state.y.value)}px)`,
+					marginTop: Math.round(state.y.value),
+				}),
+				animation.state,
+			);
+
+			return animation;
+		});
+
+		expect(element.style.opacity).toBe("0");
+		expect(element.style.transform).toBe("translateY(40px)");
+
+		act(() => {
+			result.current.pause();
+		});
+
+		const count = renders;
+
+		await act(async () => {
+			result.current.seek(100);
+			await Promise.resolve();
+		});
+
+		expect(element.style.opacity).toBe("0.5");
+		expect(element.style.transform).toBe("translateY(20px)");
+		expect(element.style.marginTop).toBe("20px");
+		expect(renders).toBe(count);
+	});
+});
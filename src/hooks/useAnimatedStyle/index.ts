@@ -0,0 +1,139 @@
+import { SharedValue } from "@ismael1361/animation";
+import React, { useCallback, useEffect, useLayoutEffect, useRef } from "react";
+import { DOMElement } from "../useAnimation/Types";
+import { UNITLESS, toStyleProperty } from "../useAnimation/Utils";
+
+/**
+ * Estilo calculado por `useAnimatedStyle`. As chaves seguem a mesma convenção da prop `style` do React (camelCase ou
+ * variáveis CSS `--name`); números recebem `px`, exceto em propriedades sem unidade como `opacity`. `null` ou `undefined` removem a propriedade.
+ */
+export type AnimatedStyle = Record<string, string | number | null | undefined>;
+
+/**
+ * Os valores observados por `useAnimatedStyle`: um `SharedValue`, uma lista deles ou um objeto de `SharedValue`
+ * (como o `state` de `useAnimation` ou o retorno de `useSharedValues`).
+ */
+export type AnimatedStyleSource = SharedValue<any> | SharedValue<any>[] | Record<string, SharedValue<any>>;
+
+const toSharedValues = (source: AnimatedStyleSource): SharedValue<any>[] => {
+	if (source instanceof SharedValue) return [source];
+	return Object.values(source).filter((value): value is SharedValue<any> => value instanceof SharedValue);
+};
+
+const setStyle = (element: HTMLElement | SVGElement, property: string, value: AnimatedStyle[string]) => {
+	const name = toStyleProperty(property);
+
+	if (value === null || value === undefined || value === "") {
+		element.style.removeProperty(name);
+		return;
+	}
+
+	element.style.setProperty(name, typeof value === "number" && !property.startsWith("--") && !UNITLESS.includes(property) ? value + "px" : String(value));
+};
+
+/**
+ * Aplica no elemento um estilo calculado a partir de valores animados, sem re-renderizar o componente.
+ *
+ * O hook se inscreve no evento `change` de cada `SharedValue` de `state` e, quando algum deles muda, executa `updater`
+ * e escreve o resultado diretamente em `element.style`. Várias mudanças no mesmo quadro (como as de uma animação em
+ * paralelo) são agrupadas em uma única atualização. Propriedades que deixam de ser retornadas são removidas.
+ *
+ * `state` é obrigatório: ler `.value` de um `SharedValue` não é observável, então o hook não tem como descobrir quais
+ * valores `updater` usa. Um valor lido por `updater` mas ausente de `state` não atualiza o estilo quando muda.
+ *
+ * Para que o componente não seja re-renderizado a cada quadro, os valores não podem vir de uma fonte que re-renderiza:
+ * use `useAnimation` com a opção `rerender: false` ou um `SharedValue` criado fora do ciclo de renderização.
+ *
+ * @template E O tipo do elemento DOM.
+ * @template S O tipo dos valores observados.
+ * @param {React.RefObject<E>} ref A ref do elemento que recebe o estilo.
+ * @param {(state: S) => AnimatedStyle} updater Calcula o estilo a partir dos valores atuais.
+ * @param {S} state Os `SharedValue`s observados, repassados a `updater`. Devem incluir todos os valores lidos por `updater`.
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef } from 'react';
+ * import { useAnimation, useAnimatedStyle } from '@ismael1361/react-use';
+ *
+ * const Card = () => {
+ *   const ref = useRef<HTMLDivElement>(null);
+ *
+ *   const animation = useAnimation(
+ *     function* (state) {
+ *       yield* this.parallel(
+ *         () => this.timing(state.opacity, { to: 1, duration: 500 }),
+ *         () => this.timing(state.y, { to: 0, duration: 500 }),
+ *       );
+ *     },
+ *     { opacity: 0, y: 40 },
+ *     [],
+ *     { rerender: false },
+ *   );
+ *
+ *   useAnimatedStyle(
+ *     ref,
+ *     (state) => ({
+ *       opacity: state.opacity.value,
+ *       transform: `translateY(${state.y.value}px)`,
+ *     }),
+ *     animation.state,
+ *   );
+ *
+ *   return <div ref={ref}>Olá, Mundo!</div>;
+ * };
+ * ```
+ */
+export const useAnimatedStyle = <E extends DOMElement = HTMLElement, S extends AnimatedStyleSource = AnimatedStyleSource>(
+	ref: React.RefObject<E>,
+	updater: (state: S) => AnimatedStyle,
+	state: S,
+): void => {
+	const callback = useRef(updater);
+	callback.current = updater;
+
+	const source = useRef(state);
+	source.current = state;
+
+	const applied = useRef<string[]>([]);
+
+	const apply = useCallback(() => {
+		const element = ref.current;
+		if (!element) return;
+
+		const style = callback.current(source.current);
+		const properties = Object.keys(style);
+
+		applied.current.forEach((property) => {
+			if (!properties.includes(property)) setStyle(element, property, undefined);
+		});
+
+		properties.forEach((property) => setStyle(element, property, style[property]));
+		applied.current = properties;
+	}, []);
+
+	useLayoutEffect(() => {
+		apply();
+	});
+
+	useEffect(() => {
+		let scheduled = false;
+		let active = true;
+
+		const events = toSharedValues(state).map((value) =>
+			value.on("change", () => {
+				if (scheduled) return;
+				scheduled = true;
+
+				queueMicrotask(() => {
+					scheduled = false;
+					if (active) apply();
+				});
+			}),
+		);
+
+		return () => {
+			active = false;
+			events.forEach((event) => event.stop());
+		};
+	}, [state]);
+};
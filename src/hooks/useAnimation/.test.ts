@@ -1,5 +1,9 @@
+import * as library from "@ismael1361/animation";
+import { InputGenerator, SharedValue } from "@ismael1361/animation";
 import { renderHook, act, waitFor } from "@testing-library/react";
 import { useAnimation } from "./index";
+import AnimationScope from "./AnimationScope";
+import { advanceFrames, installFrameClock, uninstallFrameClock } from "../../testing";
 
 describe("useAnimation", () => {
 	it("should return initial value", async () => {
@@ -23,4 +27,785 @@ describe("useAnimation", () => {
 
 		expect(result.current.state.opacity.value).toBe(1);
 	});
+
+	it("should settle a spring on its target", async () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.spring(state.x, { to: 100, stiffness: 200, damping: 20 });
+				},
+				{ x: 0 },
+			),
+		);
+
+		expect(result.current.state.x.value).toBe(0);
+
+		await waitFor(
+			() => {
+				expect(result.current.state.x.value).toBe(100);
+			},
+			{ timeout: 3000 },
+		);
+	});
+
+	it("should carry a spring's velocity over when deps retarget it mid-flight", () => {
+		installFrameClock();
+
+		const { result, rerender } = renderHook(
+			({ to }) =>
+				useAnimation(
+					function* (state) {
+						yield* this.spring(state.x, { to, stiffness: 100, damping: 10 });
+					},
+					{ x: 0 },
+					[to],
+				),
+			{ initialProps: { to: 100 } },
+		);
+
+		act(() => advanceFrames(10));
+
+		const before = result.current.state.x.value;
+		act(() => advanceFrames(1));
+		const step = result.current.state.x.value - before;
+
+		expect(step).toBeGreaterThan(1);
+
+		const position = result.current.state.x.value;
+		rerender({ to: 200 });
+
+		expect(result.current.state.x.value).toBeCloseTo(position);
+		expect(result.current.duration).not.toBeNull();
+		expect(result.current.state.x.value).toBeCloseTo(position);
+
+		act(() => advanceFrames(1));
+
+		expect(result.current.state.x.value - position).toBeGreaterThan(step * 0.75);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(0);
+		});
+
+		expect(result.current.state.x.value).toBeCloseTo(position);
+
+		act(() => result.current.seek(1000 / 60));
+
+		expect(result.current.state.x.value - position).toBeGreaterThan(step * 0.75);
+
+		uninstallFrameClock();
+	});
+
+	it("should let from take precedence over an interrupted spring", () => {
+		installFrameClock();
+
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.any(
+						() => this.spring(state.x, { to: 100 }),
+						() => this.wait(100),
+					);
+					yield* this.spring(state.x, { from: 0, to: 50 });
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => advanceFrames(5));
+
+		expect(result.current.state.x.value).toBeGreaterThan(10);
+
+		act(() => advanceFrames(1));
+
+		expect(result.current.state.x.value).toBe(0);
+
+		uninstallFrameClock();
+	});
+
+	it("should pause and seek the animation", async () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 1000, easing: this.Easing.linear });
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(500);
+		});
+
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+		expect(result.current.status).toBe("paused");
+
+		act(() => {
+			result.current.seek(1000);
+		});
+
+		expect(result.current.state.x.value).toBe(100);
+		expect(result.current.status).toBe("finished");
+		expect(result.current.progress).toBe(1);
+	});
+
+	it("should know the duration and progress from the first run", () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 1000, easing: this.Easing.linear });
+				},
+				{ x: 0 },
+			),
+		);
+
+		expect(result.current.duration).toBeCloseTo(1000);
+		expect(result.current.state.x.value).toBe(0);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(250);
+		});
+
+		expect(result.current.progress).toBeCloseTo(0.25);
+
+		act(() => {
+			result.current.seek(5000);
+		});
+
+		expect(result.current.time).toBeCloseTo(1000);
+		expect(result.current.progress).toBe(1);
+
+		const { result: infinite } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.loop(() => this.timing(state.x, { from: 0, to: 100, duration: 1000 }));
+				},
+				{ x: 0 },
+			),
+		);
+
+		expect(infinite.current.duration).toBeNull();
+		expect(infinite.current.progress).toBe(0);
+	});
+
+	it("should run a timing callback once per frame on a normal start and measure lazily", () => {
+		installFrameClock();
+		const callback = jest.fn();
+		let renders = 0;
+
+		const { result } = renderHook(() => {
+			renders++;
+
+			return useAnimation(
+				function* (state) {
+					yield* this.timing(callback, { from: 0, to: 100, duration: 1000, easing: this.Easing.linear });
+					yield* this.loop(() => this.timing(state.x, { from: 0, to: 1, duration: 500 }));
+				},
+				{ x: 0 },
+			);
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+
+		act(() => advanceFrames(3));
+
+		expect(callback).toHaveBeenCalledTimes(4);
+		expect(callback).toHaveBeenLastCalledWith(5);
+
+		const count = renders;
+		callback.mockClear();
+		expect(result.current.duration).toBeNull();
+		expect(renders).toBe(count);
+
+		act(() => advanceFrames(1));
+
+		expect(callback).toHaveBeenLastCalledWith(expect.closeTo(100 / 15));
+
+		uninstallFrameClock();
+	});
+
+	it("should bound the replay work when seeking and reversing a long animation", () => {
+		installFrameClock();
+		const easing = jest.fn((t: number) => t);
+
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 50000, easing });
+					yield* this.loop(() => this.timing(state.y, { from: 0, to: 1, duration: 1000, easing }));
+				},
+				{ x: 0, y: 0 },
+			),
+		);
+
+		act(() => {
+			result.current.pause();
+			easing.mockClear();
+			result.current.seek(40000);
+		});
+
+		expect(result.current.state.x.value).toBeCloseTo(80);
+		expect(easing.mock.calls.length).toBeLessThanOrEqual(1001);
+
+		act(() => {
+			result.current.reverse();
+			result.current.resume();
+			easing.mockClear();
+			advanceFrames(3);
+		});
+
+		expect(result.current.time).toBeCloseTo(40000 - 3000 / 60);
+		expect(result.current.state.x.value).toBeCloseTo(79.9, 1);
+		expect(easing.mock.calls.length).toBeLessThanOrEqual(3 * 1001);
+
+		act(() => {
+			result.current.pause();
+			result.current.reverse();
+			easing.mockClear();
+			result.current.seek(10000000);
+		});
+
+		expect(result.current.state.x.value).toBe(100);
+		expect(easing.mock.calls.length).toBeLessThanOrEqual(1001);
+
+		uninstallFrameClock();
+	});
+
+	it("should match the timing helpers of @ismael1361/animation and their defaults", () => {
+		type TimingHelpers = Pick<typeof AnimationScope, "timing" | "wait" | "delay" | "sequence" | "stagger" | "loop">;
+		type Scenario = (helpers: TimingHelpers, state: Record<"a" | "b", SharedValue<number>>) => InputGenerator;
+
+		const scenarios: Scenario[] = [
+			(h, state) => h.timing(state.a),
+			(h, state) => h.timing(state.a, { to: 10, duration: 400, delay: 100 }),
+			(h, state) => h.delay(undefined, () => h.timing(state.a, { to: 5, duration: 100 })),
+			(h, state) => library.chain(h.wait(), () => h.timing(state.b, { to: 1 })),
+			(h, state) =>
+				h.sequence(
+					200,
+					() => h.timing(state.a, { to: 1, duration: 300 }),
+					() => h.timing(state.b, { to: 1, duration: 300 }),
+				),
+			(h, state) =>
+				h.stagger(
+					150,
+					() => h.timing(state.a, { to: 1, duration: 300 }),
+					() => h.timing(state.b, { to: 1, duration: 300 }),
+				),
+			(h, state) => h.loop(3, () => h.timing(state.a, { from: 0, to: 1, duration: 250 })),
+		];
+
+		installFrameClock();
+
+		for (const scenario of scenarios) {
+			const reference = library.create(
+				function* (state: Record<"a" | "b", SharedValue<number>>) {
+					yield* scenario(library, state);
+				},
+				{ a: 0, b: 0 },
+			);
+
+			const { result, unmount } = renderHook(() =>
+				useAnimation(
+					function* (state) {
+						yield* scenario(this, state);
+					},
+					{ a: 0, b: 0 },
+				),
+			);
+
+			reference.start();
+
+			const expected: number[][] = [];
+			const received: number[][] = [];
+
+			for (let frame = 0; frame < 150; frame++) {
+				act(() => advanceFrames(1));
+				expected.push([reference.state.a.value, reference.state.b.value].map((value) => +value.toFixed(6)));
+				received.push([result.current.state.a.value, result.current.state.b.value].map((value) => +value.toFixed(6)));
+			}
+
+			expect(received).toEqual(expected);
+
+			reference.stop();
+			unmount();
+		}
+
+		uninstallFrameClock();
+	});
+
+	it("should call lifecycle callbacks and resolve finished", async () => {
+		const onStart = jest.fn();
+		const onComplete = jest.fn();
+		const onCancel = jest.fn();
+		const onIteration = jest.fn();
+
+		const { result, unmount } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.loop(3, () => this.timing(state.x, { from: 0, to: 100, duration: 100, easing: this.Easing.linear }));
+				},
+				{ x: 0 },
+				[],
+				{ onStart, onComplete, onCancel, onIteration },
+			),
+		);
+
+		expect(onStart).toHaveBeenCalledTimes(1);
+
+		const finished = result.current.finished;
+
+		await waitFor(() => expect(onComplete).toHaveBeenCalledTimes(1), { timeout: 1500 });
+
+		await expect(finished).resolves.toBe(true);
+		expect(onIteration.mock.calls).toEqual([[1], [2]]);
+
+		act(() => {
+			result.current.seek(150);
+		});
+
+		expect(onIteration).toHaveBeenCalledTimes(2);
+
+		const canceled = result.current.finished;
+		unmount();
+
+		await expect(canceled).resolves.toBe(false);
+		expect(onCancel).toHaveBeenCalledTimes(1);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it("should interpolate keyframes", () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.keyframes(state, [{ x: 0 }, { offset: 0.5, x: 100 }, { x: 0 }], { duration: 400 });
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(200);
+		});
+
+		expect(result.current.state.x.value).toBeCloseTo(100, 0);
+
+		act(() => {
+			result.current.seek(300);
+		});
+
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+	});
+
+	it("should write element keyframes as styles and restore them on backward seeks", () => {
+		const element = document.createElement("div");
+		element.style.marginTop = "5px";
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				yield* this.wait(100);
+				yield* this.dom(element).keyframes(
+					[
+						{ "marginTop": 0, "opacity": 0, "--size": 1 },
+						{ "marginTop": 20, "opacity": 1, "--size": 2 },
+					],
+					{ duration: 200, easing: this.Easing.linear },
+				);
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(200);
+		});
+
+		expect(element.style.marginTop).toMatch(/px$/);
+		expect(parseFloat(element.style.marginTop)).toBeCloseTo(10);
+		expect(parseFloat(element.style.opacity)).toBeCloseTo(0.5);
+		expect(parseFloat(element.style.getPropertyValue("--size"))).toBeCloseTo(1.5);
+
+		act(() => {
+			result.current.seek(50);
+		});
+
+		expect(element.style.marginTop).toBe("5px");
+		expect(element.style.opacity).toBe("");
+		expect(element.style.getPropertyValue("--size")).toBe("");
+	});
+
+	it("should place timeline tracks by label", () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					const linear = this.Easing.linear;
+
+					yield* this.timeline()
+						.label("intro")
+						.add(() => this.timing(state.a, { to: 1, duration: 200, easing: linear }), "intro")
+						.add(() => this.timing(state.b, { to: 1, duration: 200, easing: linear }), "intro+=100")
+						.add(() => this.timing(state.c, { to: 1, duration: 100, easing: linear }), ">")
+						.play();
+				},
+				{ a: 0, b: 0, c: 0 },
+			),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(150);
+		});
+
+		expect(result.current.state.a.value).toBeCloseTo(0.75, 1);
+		expect(result.current.state.b.value).toBeCloseTo(0.25, 1);
+		expect(result.current.state.c.value).toBe(0);
+
+		act(() => {
+			result.current.seek(350);
+		});
+
+		expect(result.current.state.b.value).toBe(1);
+		expect(result.current.state.c.value).toBeCloseTo(0.5, 1);
+	});
+
+	it("should start a timeline track with the time its first frame overshoots", () => {
+		installFrameClock();
+
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timeline()
+						.add(() => this.timing(state.x, { from: 0, to: 100, duration: 100, easing: this.Easing.linear }), 10)
+						.play();
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => advanceFrames(1));
+
+		expect(result.current.state.x.value).toBeCloseTo(1000 / 60 - 10);
+
+		act(() => advanceFrames(1));
+
+		expect(result.current.state.x.value).toBeCloseTo(2000 / 60 - 10);
+
+		uninstallFrameClock();
+	});
+
+	it("should warn about an unknown timeline label", () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timeline()
+						.add(() => this.timing(state.a, { to: 1, duration: 100 }))
+						.add(() => this.timing(state.b, { to: 1, duration: 100 }), "outro")
+						.play();
+				},
+				{ a: 0, b: 0 },
+			),
+		);
+
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn.mock.calls[0][0]).toContain('"outro"');
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(150);
+		});
+
+		expect(result.current.state.b.value).toBeGreaterThan(0);
+		expect(warn).toHaveBeenCalledTimes(1);
+	});
+
+	it("should slow a decay animation down until it reaches its clamp", () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.decay(state.x, { velocity: 1000, clamp: [0, 300] });
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(100);
+		});
+
+		expect(result.current.state.x.value).toBeGreaterThan(90);
+		expect(result.current.state.x.value).toBeLessThan(100);
+
+		act(() => {
+			result.current.seek(5000);
+		});
+
+		expect(result.current.state.x.value).toBe(300);
+		expect(result.current.status).toBe("finished");
+	});
+
+	it("should skip motion when reduced motion is always on", async () => {
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { to: 100, duration: 1000 });
+					yield* this.loop(() => this.timing(state.y, { from: 0, to: 1, duration: 500 }));
+				},
+				{ x: 0, y: 0 },
+				[],
+				{ reducedMotion: "always" },
+			),
+		);
+
+		await waitFor(() => {
+			expect(result.current.status).toBe("finished");
+		});
+
+		expect(result.current.state.x.value).toBe(100);
+		expect(result.current.state.y.value).toBe(0);
+	});
+
+	it("should morph an SVG path and tween attributes", () => {
+		const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
+		const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				yield* this.parallel(
+					() => this.dom(path).path({ from: "M0 0 L10 0", to: "M0 10 L20 10 L20 20", duration: 200, easing: this.Easing.linear }),
+					() => this.dom(circle).attr("r", { from: 10, to: 20, duration: 200, easing: this.Easing.linear }),
+				);
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(200);
+		});
+
+		expect(path.getAttribute("d")).toBe("M0 10C6.667 10 13.333 10 20 10C20 13.333 20 16.667 20 20");
+		expect(circle.getAttribute("r")).toBe("20");
+	});
+
+	it("should tween generic style properties and CSS variables", () => {
+		const element = document.createElement("div");
+		element.style.borderRadius = "10px";
+		document.body.appendChild(element);
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				const linear = this.Easing.linear;
+
+				yield* this.parallel(
+					() => this.dom(element).style("borderRadius", { to: 30, duration: 200, easing: linear }),
+					() => this.dom(element).style("padding", { from: "0px 10px", to: "10px 30px", duration: 200, easing: linear }),
+					() => this.dom(element).cssVar("--progress", { from: 0, to: 1, duration: 200, easing: linear }),
+				);
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(100);
+		});
+
+		expect(element.style.borderRadius).toBe("20px");
+		expect(element.style.padding).toBe("5px 20px");
+		expect(element.style.getPropertyValue("--progress")).toBe("0.5");
+
+		act(() => {
+			result.current.seek(200);
+		});
+
+		expect(element.style.borderRadius).toBe("30px");
+
+		act(() => {
+			result.current.seek(100);
+		});
+
+		expect(element.style.borderRadius).toBe("20px");
+		expect(element.style.getPropertyValue("--progress")).toBe("0.5");
+
+		act(() => {
+			result.current.seek(0);
+		});
+
+		expect(element.style.borderRadius).toBe("10px");
+
+		element.remove();
+	});
+
+	it("should tween box shadows from none, across layer counts and with inset", () => {
+		const element = document.createElement("div");
+		const geometry = () =>
+			element.style.boxShadow.split(/,(?![^(]*\))/).map((layer) =>
+				layer
+					.trim()
+					.split(/\s+(?![^(]*\))/)
+					.filter((token) => token === "inset" || token.endsWith("px"))
+					.join(" "),
+			);
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				const linear = this.Easing.linear;
+
+				yield* this.dom(element).boxShadow({ from: "none", to: "0 4px 8px rgba(0, 0, 0, 0.4)", duration: 200, easing: linear });
+				yield* this.dom(element).boxShadow({ from: "0 4px 8px rgba(0, 0, 0, 0.4)", to: "0 8px 16px rgba(0, 0, 0, 0.2), inset 0 0 0 2px red", duration: 200, easing: linear });
+				yield* this.dom(element).boxShadow({ from: "0 8px 16px rgba(0, 0, 0, 0.2), inset 0 0 0 2px red", to: "none", duration: 200, easing: linear });
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(0);
+		});
+
+		expect(geometry()).toEqual(["0.00px 0.00px 0.00px 0.00px"]);
+
+		act(() => {
+			result.current.seek(100);
+		});
+
+		expect(geometry()).toEqual(["0.00px 2.00px 4.00px 0.00px"]);
+
+		act(() => {
+			result.current.seek(300);
+		});
+
+		expect(geometry()).toEqual(["0.00px 6.00px 12.00px 0.00px", "inset 0.00px 0.00px 0.00px 1.00px"]);
+
+		act(() => {
+			result.current.seek(400);
+		});
+
+		expect(geometry()).toEqual(["0.00px 8.00px 16.00px 0.00px", "inset 0.00px 0.00px 0.00px 2.00px"]);
+
+		act(() => {
+			result.current.seek(500);
+		});
+
+		expect(geometry()).toEqual(["0.00px 4.00px 8.00px 0.00px", "inset 0.00px 0.00px 0.00px 1.00px"]);
+
+		act(() => {
+			result.current.seek(600);
+		});
+
+		expect(geometry()).toEqual(["0.00px 0.00px 0.00px 0.00px", "inset 0.00px 0.00px 0.00px 0.00px"]);
+	});
+
+	it("should compose transform helpers with the inline transform", () => {
+		const element = document.createElement("div");
+		element.style.transform = "perspective(500px) rotate(10deg)";
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				const linear = this.Easing.linear;
+
+				yield* this.parallel(
+					() => this.dom(element).translateX({ from: 0, to: 100, duration: 200, easing: linear }),
+					() => this.dom(element).scaleX({ from: 1, to: 2, duration: 200, easing: linear }),
+					() => this.dom(element).skewY({ from: 0, to: 10, duration: 200, easing: linear }),
+				);
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(100);
+		});
+
+		expect(element.style.transform).toBe("perspective(500px) translateX(50.00px) scaleX(1.500) rotate(10deg) skewY(5.00deg)");
+
+		act(() => {
+			result.current.seek(0);
+		});
+
+		expect(element.style.transform).toBe("perspective(500px) translateX(0.00px) scaleX(1.000) rotate(10deg) skewY(0.00deg)");
+
+		act(() => {
+			result.current.seek(200);
+		});
+
+		expect(result.current.status).toBe("finished");
+
+		element.style.transform = "rotate(45deg)";
+
+		renderHook(() =>
+			useAnimation(function* () {
+				yield* this.dom(element).translateY({ from: 0, to: 10, duration: 0 });
+			}),
+		);
+
+		expect(element.style.transform).toBe("translateY(10.00px) rotate(45deg)");
+	});
+
+	it("should run opacity through the Web Animations API when opted in", () => {
+		const element = document.createElement("div");
+		const animation = { currentTime: 0, playbackRate: 1, playState: "running", pause: jest.fn(), play: jest.fn(), cancel: jest.fn() };
+		const animate = jest.fn(() => animation);
+		Object.defineProperty(element, "animate", { value: animate });
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				yield* this.dom(element, { backend: "waapi" }).opacity({ from: 0, to: 1, duration: 200, easing: this.Easing.linear });
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(100);
+		});
+
+		expect(animate).toHaveBeenCalledWith(
+			[
+				{ opacity: "0.00", offset: 0 },
+				{ opacity: "1.00", offset: 1 },
+			],
+			expect.objectContaining({ duration: 200, easing: "linear" }),
+		);
+		expect(animation.pause).toHaveBeenCalled();
+		expect(animation.currentTime).toBeCloseTo(100);
+		expect(element.style.opacity).toBe("");
+
+		act(() => {
+			result.current.seek(200);
+		});
+
+		expect(element.style.opacity).toBe("1");
+		expect(animation.cancel).toHaveBeenCalled();
+	});
+
+	it("should stagger a helper over a list of elements", () => {
+		const list = document.createElement("ul");
+		list.innerHTML = "<li></li><li></li><li></li>";
+		const items = list.querySelectorAll("li");
+
+		const { result } = renderHook(() =>
+			useAnimation(function* () {
+				yield* this.domAll(items, { stagger: 100, from: "center" }).translateX((index) => ({ from: index * 10, to: 100, duration: 200, easing: this.Easing.linear }));
+			}),
+		);
+
+		act(() => {
+			result.current.pause();
+			result.current.seek(50);
+		});
+
+		expect(items[0].style.transform).toBe("");
+		expect(items[1].style.transform).toBe("translateX(32.50px)");
+		expect(items[2].style.transform).toBe("");
+
+		act(() => {
+			result.current.seek(300);
+		});
+
+		expect(items[0].style.transform).toBe("translateX(100.00px)");
+		expect(items[2].style.transform).toBe("translateX(100.00px)");
+		expect(result.current.status).toBe("finished");
+	});
 });
@@ -0,0 +1,415 @@
+import { InputGenerator, timeSincePreviousFrame } from "@ismael1361/animation";
+import { EventEmitter } from "@ismael1361/utils";
+import { AnimationPlayback, AnimationStatus, ReducedMotionPolicy } from "./Types";
+
+const FRAME_TIME = 1000 / 60;
+
+/**
+ * Limite da medição da duração: animações que não terminam nesse tempo (como um `loop` infinito) ficam sem duração.
+ */
+export const MAX_DURATION = 60000;
+
+/**
+ * Número máximo de passos de uma busca. Buscas mais longas do que essa quantidade de quadros usam passos maiores,
+ * trocando precisão (molas, por exemplo, limitam o passo que integram) por um custo limitado, inclusive em animações infinitas.
+ */
+const MAX_REPLAY_STEPS = 1000;
+
+type ClockEvents = {
+	change: [];
+	start: [];
+	complete: [];
+	cancel: [];
+	iteration: [count: number];
+};
+
+/**
+ * Relógio de reprodução de uma instância de `useAnimation`.
+ *
+ * Em vez de deixar o gerador da animação consumir o tempo real do navegador, o relógio o executa passo a passo,
+ * entregando a cada quadro um tempo virtual (`delta`). Isso permite pausar, alterar a velocidade, buscar
+ * uma posição (reexecutando o gerador desde o início de forma síncrona) e reproduzir em sentido inverso.
+ * Os primitivos de tempo de `AnimationScope` leem esse tempo através de `AnimationClock.current`.
+ *
+ * Como o gerador não pode ser copiado, voltar a uma posição anterior sempre o reexecuta desde o início, inclusive a
+ * cada quadro da reprodução inversa. Esse trabalho é limitado a `MAX_REPLAY_STEPS` passos por busca. A duração só é
+ * medida (reexecutando o gerador até o fim) quando `duration` ou `progress` são lidos antes de a animação terminar.
+ */
+export default class AnimationClock {
+	/**
+	 * Relógio cujo gerador está sendo executado no momento. Definido apenas durante cada passo.
+	 */
+	static current: AnimationClock | null = null;
+
+	/**
+	 * Política global de movimento reduzido, usada pelas instâncias que não definem a própria.
+	 */
+	static reducedMotion: ReducedMotionPolicy = "user";
+
+	delta: number = 0;
+	time: number = 0;
+	status: AnimationStatus = "idle";
+	direction: 1 | -1 = 1;
+	paused: boolean = false;
+
+	/**
+	 * Política de movimento reduzido desta instância. Se `undefined`, usa `AnimationClock.reducedMotion`.
+	 */
+	policy?: ReducedMotionPolicy;
+
+	/**
+	 * Se o sistema pede movimento reduzido (`prefers-reduced-motion: reduce`), conforme observado pelo hook dono do relógio.
+	 */
+	prefersReducedMotion: boolean = false;
+
+	/**
+	 * Se o gerador está sendo reexecutado por uma busca ou por uma medição. Nesse intervalo os valores mudam várias vezes
+	 * de forma síncrona e, na medição, voltam ao que eram; quem os observa pode ignorar essas mudanças e aguardar o
+	 * evento `change` do relógio.
+	 */
+	replaying: boolean = false;
+
+	private rate: number = 1;
+	private generator: InputGenerator | null = null;
+	private running: boolean = false;
+	private resuming: boolean = false;
+	private stepping: boolean = false;
+	private pendingSeek: number | null = null;
+	/**
+	 * Duração da execução atual: `undefined` enquanto não é conhecida e `null` se a animação não termina em `MAX_DURATION`.
+	 */
+	private total: number | null | undefined = undefined;
+	private finishedPromise: Promise<boolean> | null = null;
+	private resolveFinished: ((completed: boolean) => void) | null = null;
+	private events = new EventEmitter<ClockEvents>();
+	private restores = new Map<object, Map<string, () => void>>();
+
+	/**
+	 * @param factory Cria o gerador da animação a partir do início.
+	 * @param reset Restaura o estado inicial antes de recriar o gerador.
+	 * @param launch Reinicia o laço de quadros quando a animação já terminou e um comando (`resume`, `seek`, `reverse`) pede para continuar.
+	 */
+	constructor(
+		private factory: () => InputGenerator,
+		private reset: () => void,
+		private launch: () => void,
+	) {}
+
+	get playbackRate(): number {
+		return this.rate;
+	}
+
+	set playbackRate(rate: number) {
+		this.rate = Math.max(0, rate);
+		this.emit();
+	}
+
+	/**
+	 * Indica se as animações desta instância devem ter o movimento reduzido.
+	 */
+	get motionReduced(): boolean {
+		const policy = this.policy ?? AnimationClock.reducedMotion;
+		return policy === "always" || (policy === "user" && this.prefersReducedMotion);
+	}
+
+	/**
+	 * Duração da animação em milissegundos, ou `null` se ela não termina em `MAX_DURATION`. Se a execução atual ainda não
+	 * terminou, a primeira leitura a mede (veja `measure`).
+	 */
+	get duration(): number | null {
+		if (this.total === undefined && !this.stepping && !this.replaying) this.measure();
+		return this.total ?? null;
+	}
+
+	get progress(): number {
+		const duration = this.duration;
+		if (!duration) return this.status === "finished" ? 1 : 0;
+		return Math.min(Math.max(this.time / duration, 0), 1);
+	}
+
+	/**
+	 * Promessa da execução atual: resolvida com `true` quando a animação termina ou com `false` quando é interrompida antes do fim.
+	 */
+	get finished(): Promise<boolean> {
+		if (this.status === "finished") return Promise.resolve(true);
+
+		if (!this.finishedPromise) {
+			this.finishedPromise = new Promise((resolve) => (this.resolveFinished = resolve));
+		}
+
+		return this.finishedPromise;
+	}
+
+	onChange(callback: () => void) {
+		return this.events.on("change", callback);
+	}
+
+	/**
+	 * Observa o ciclo de vida da reprodução: `start` (a animação começa do início), `complete` (chega ao fim), `cancel`
+	 * (é interrompida antes do fim) e `iteration` (uma nova volta de `loop` começa, com o número de voltas concluídas).
+	 */
+	on<K extends Exclude<keyof ClockEvents, "change">>(event: K, callback: (...args: ClockEvents[K]) => void) {
+		return this.events.on(event, callback);
+	}
+
+	/**
+	 * Informa que uma volta de `loop` terminou. Ignorado enquanto o gerador é reexecutado por uma busca.
+	 */
+	iterate(count: number) {
+		if (!this.replaying) this.events.emit("iteration", count);
+	}
+
+	/**
+	 * Registra como desfazer uma alteração que a animação faz fora do seu estado, como um estilo inline de um elemento.
+	 * Antes de o gerador ser reexecutado desde o início (em uma busca para trás), as alterações registradas são desfeitas,
+	 * para que a nova execução parta dos mesmos valores que a original. Apenas o primeiro registro de cada `target` e `key`
+	 * em uma execução é mantido.
+	 * @param save Lê o valor atual e retorna a função que o restaura. Só é chamada no primeiro registro.
+	 */
+	preserve(target: object, key: string, save: () => () => void) {
+		let entries = this.restores.get(target);
+		if (!entries) this.restores.set(target, (entries = new Map()));
+		if (!entries.has(key)) entries.set(key, save());
+	}
+
+	/**
+	 * Mede a duração da animação executando o gerador desde o início até o fim, sem emitir eventos, e volta à posição atual.
+	 * Como em uma busca, as funções de retorno de chamada do gerador são executadas de novo, e os valores e estilos alterados
+	 * pelos helpers são restaurados (veja `preserve`).
+	 * Animações que não terminam em `MAX_DURATION` milissegundos (como um `loop` infinito) ficam com `duration` igual a `null`
+	 * e `progress` igual a `0` até terminarem de fato.
+	 */
+	measure() {
+		const time = this.time;
+		this.total = null;
+		this.replaying = true;
+
+		try {
+			if (!this.rewind()) this.advance(MAX_DURATION, FRAME_TIME);
+			if (!this.rewind()) this.advance(time, Math.max(FRAME_TIME, time / MAX_REPLAY_STEPS));
+		} finally {
+			this.replaying = false;
+		}
+	}
+
+	/**
+	 * Gerador raiz entregue ao `create` de `@ismael1361/animation`. Consome os quadros reais e repassa o tempo virtual ao gerador da animação.
+	 */
+	*drive(): InputGenerator {
+		if (!this.resuming || !this.generator) {
+			this.direction = 1;
+			this.restores.clear();
+			this.total = undefined;
+			this.events.emit("start");
+			if (this.rewind()) return this.finish();
+		}
+
+		this.resuming = false;
+		this.running = true;
+		this.setStatus(this.paused ? "paused" : "running");
+
+		try {
+			while (true) {
+				const delta: number = yield* timeSincePreviousFrame();
+
+				if (this.status === "finished") {
+					return;
+				}
+
+				if (this.pendingSeek !== null) {
+					const target = this.pendingSeek;
+					this.pendingSeek = null;
+					if (this.moveTo(target)) return this.finish();
+				}
+
+				if (this.paused || delta <= 0 || this.rate === 0) {
+					continue;
+				}
+
+				const step = delta * this.rate;
+				const finished = this.direction > 0 ? this.advance(step) : this.moveTo(this.time - step);
+
+				this.emit();
+
+				if (finished) return this.finish();
+			}
+		} finally {
+			this.running = false;
+
+			if (this.status !== "finished") {
+				this.generator?.return(undefined);
+				this.generator = null;
+				this.setStatus("idle");
+				this.events.emit("cancel");
+				this.settle(false);
+			}
+		}
+	}
+
+	pause() {
+		this.paused = true;
+		if (this.status === "running") this.setStatus("paused");
+	}
+
+	resume() {
+		this.paused = false;
+		if (this.canContinue()) this.continue();
+	}
+
+	seek(ms: number) {
+		if (this.stepping) {
+			this.pendingSeek = ms;
+			return;
+		}
+
+		if (this.moveTo(ms)) this.finish();
+		else this.continue();
+
+		this.emit();
+	}
+
+	reverse() {
+		this.direction = this.direction > 0 ? -1 : 1;
+		if (this.canContinue()) this.continue();
+
+		this.emit();
+	}
+
+	/**
+	 * Adiciona os controles de reprodução a um objeto (o controlador retornado por `create`).
+	 */
+	attach<T extends object>(target: T): T & AnimationPlayback {
+		const clock = this;
+
+		return Object.defineProperties(target, {
+			status: { get: () => clock.status, configurable: true },
+			time: { get: () => clock.time, configurable: true },
+			duration: { get: () => clock.duration, configurable: true },
+			progress: { get: () => clock.progress, configurable: true },
+			playbackRate: {
+				get: () => clock.playbackRate,
+				set: (rate: number) => (clock.playbackRate = rate),
+				configurable: true,
+			},
+			pause: { value: () => clock.pause(), configurable: true },
+			resume: { value: () => clock.resume(), configurable: true },
+			seek: { value: (ms: number) => clock.seek(ms), configurable: true },
+			reverse: { value: () => clock.reverse(), configurable: true },
+			finished: { get: () => clock.finished, configurable: true },
+		}) as T & AnimationPlayback;
+	}
+
+	private canContinue(): boolean {
+		return this.direction > 0 ? this.time < (this.total ?? Infinity) : this.time > 0;
+	}
+
+	private continue() {
+		if (this.paused) {
+			this.setStatus("paused");
+		} else if (this.running) {
+			this.setStatus("running");
+		} else {
+			this.resuming = true;
+			this.launch();
+		}
+	}
+
+	private finish() {
+		if (this.status === "finished") return;
+		this.setStatus("finished");
+		this.events.emit("complete");
+		this.settle(true);
+	}
+
+	private settle(completed: boolean) {
+		const resolve = this.resolveFinished;
+		this.finishedPromise = null;
+		this.resolveFinished = null;
+		resolve?.(completed);
+	}
+
+	private setStatus(status: AnimationStatus) {
+		if (this.status === status) return;
+		this.status = status;
+		this.emit();
+	}
+
+	private emit() {
+		this.events.emit("change");
+	}
+
+	/**
+	 * Desfaz as alterações registradas com `preserve`, recria o gerador a partir do estado inicial e executa seu primeiro passo.
+	 * @returns `true` se a animação terminou imediatamente.
+	 */
+	private rewind(): boolean {
+		this.generator?.return(undefined);
+
+		for (const entries of this.restores.values()) {
+			entries.forEach((restore) => restore());
+		}
+
+		this.restores.clear();
+		this.reset();
+		this.time = 0;
+		this.generator = this.factory();
+		return this.step(0);
+	}
+
+	/**
+	 * Move a animação até `target` milissegundos. Posições anteriores à atual reexecutam o gerador desde o início.
+	 * Em quadros de `FRAME_TIME`, ou em passos maiores quando o trecho exige mais de `MAX_REPLAY_STEPS` deles.
+	 * @returns `true` se a posição alcançada é um dos extremos no sentido atual da reprodução.
+	 */
+	private moveTo(target: number): boolean {
+		const position = Math.max(0, Math.min(target, this.total ?? Infinity));
+		this.replaying = true;
+
+		try {
+			if (position < this.time || !this.generator) {
+				if (this.rewind() && this.direction > 0) return true;
+			}
+
+			const distance = position - this.time;
+			const finished = this.advance(distance, Math.max(FRAME_TIME, distance / MAX_REPLAY_STEPS));
+			return this.direction > 0 ? finished : this.time <= 0;
+		} finally {
+			this.replaying = false;
+		}
+	}
+
+	/**
+	 * Avança o gerador por `ms` milissegundos de tempo virtual, em passos de no máximo `maxStep`.
+	 * @returns `true` se o gerador terminou.
+	 */
+	private advance(ms: number, maxStep: number = ms): boolean {
+		let remaining = ms;
+
+		while (remaining > 0) {
+			const delta = Math.min(remaining, maxStep);
+			remaining -= delta;
+			if (this.step(delta)) return true;
+		}
+
+		return false;
+	}
+
+	private step(delta: number): boolean {
+		if (!this.generator) return true;
+
+		const previous = AnimationClock.current;
+		AnimationClock.current = this;
+		this.stepping = true;
+		this.delta = delta;
+		this.time += delta;
+
+		try {
+			const done = !!this.generator.next().done;
+			if (done) this.total = this.time;
+			return done;
+		} finally {
+			this.stepping = false;
+			AnimationClock.current = previous;
+		}
+	}
+}
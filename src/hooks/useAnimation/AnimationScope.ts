@@ -1,4 +1,10 @@
-import { Easing, timeSincePreviousFrame, timing, wait, waitUntil, delay, parallel, all, any, chain, stagger, sequence, loop } from "@ismael1361/animation";
+import { Easing, parallel, all, any, chain } from "@ismael1361/animation";
+import { decay } from "./Decay";
+import { inspected } from "./Inspector";
+import { keyframes } from "./Keyframes";
+import { spring } from "./Spring";
+import Timeline from "./Timeline";
+import { timeSincePreviousFrame, timing, wait, waitUntil, delay, stagger, sequence, loop } from "./Timing";
 
 export default {
 	/**
@@ -21,6 +27,7 @@ export default {
 
 	/**
 	 * Anima propriedade de um `SharedValue<number>` ou executa uma função de retorno de chamada com o valor animado.
+	 * Com movimento reduzido (veja `reducedMotion`), o valor final é aplicado imediatamente.
 	 *
 	 * @param {SharedValue<number> | TimingCallback} value `SharedValue<number>` ou uma função de retorno de chamada que recebe o valor atual e retorna `true` para cancelar a animação.
 	 * @param {TimingConfig} [config] Configurações da animação como `from`, `to`, `duration`, `easing` e `delay`.
@@ -41,7 +48,47 @@ export default {
 	 * }, { to: 1, duration: 1000 });
 	 * ```
 	 */
-	timing,
+	timing: inspected("timing", timing),
+
+	/**
+	 * Anima um `SharedValue<number>` ou executa uma função de retorno de chamada usando física de mola.
+	 * Diferente de `timing`, não há duração fixa: a animação termina quando a mola entra em repouso.
+	 * Se uma nova mola for iniciada sobre o mesmo alvo enquanto outra ainda está em execução, a anterior é
+	 * interrompida e a nova continua a partir da posição e velocidade atuais. Com movimento reduzido, o valor final é aplicado imediatamente.
+	 *
+	 * @param {SharedValue<number> | SpringCallback} value `SharedValue<number>` ou uma função de retorno de chamada que recebe o valor atual e retorna `true` para cancelar a animação.
+	 * @param {SpringConfig} config Configurações da mola como `to`, `stiffness`, `damping`, `mass`, `velocity` e `restThreshold`.
+	 * @returns {InputGenerator} Um gerador que, quando executado, realiza a animação.
+	 * @example
+	 * ```ts
+	 * const x = new SharedValue(0);
+	 *
+	 * // Solta um elemento arrastado com a velocidade do gesto
+	 * yield* this.spring(x, { to: 0, velocity: 1200, stiffness: 180, damping: 20 });
+	 *
+	 * // Também funciona nos helpers de DOM, no lugar de uma configuração de timing
+	 * yield* this.dom(ref).translateX({ from: 0, to: 200, stiffness: 120, damping: 14 });
+	 * ```
+	 */
+	spring: inspected("spring", spring),
+
+	/**
+	 * Anima um `SharedValue<number>` ou executa uma função de retorno de chamada a partir de uma velocidade inicial que
+	 * diminui até parar, como um elemento arremessado. A animação termina quando a velocidade fica abaixo de `restThreshold`
+	 * ou quando o valor atinge um dos limites de `clamp`. Com movimento reduzido, o valor final é aplicado imediatamente.
+	 *
+	 * @param {SharedValue<number> | DecayCallback} value `SharedValue<number>` ou uma função de retorno de chamada que recebe o valor atual e retorna `true` para cancelar a animação.
+	 * @param {DecayConfig} config A velocidade inicial (`velocity`, em unidades por segundo) e os parâmetros `from`, `deceleration`, `clamp` e `restThreshold`.
+	 * @returns {InputGenerator} Um gerador que, quando executado, realiza a animação.
+	 * @example
+	 * ```ts
+	 * const x = new SharedValue(0);
+	 *
+	 * // Arremessa um elemento com a velocidade do gesto, sem sair de 0 a 300
+	 * yield* this.decay(x, { velocity: 1500, clamp: [0, 300] });
+	 * ```
+	 */
+	decay: inspected("decay", decay),
 
 	/**
 	 * Pausa a execução da animação por uma determinada duração.
@@ -55,7 +102,7 @@ export default {
 	 * console.log("Fim da pausa.");
 	 * ```
 	 */
-	wait,
+	wait: inspected("wait", wait),
 
 	/**
 	 * Pausa a execução da animação até que uma condição em um `SharedValue<boolean>` seja atendida.
@@ -79,7 +126,7 @@ export default {
 	 * console.log("O elemento não está mais visível.");
 	 * ```
 	 */
-	waitUntil,
+	waitUntil: inspected("waitUntil", waitUntil),
 
 	/**
 	 * Cria uma pausa e, opcionalmente, executa outra animação em seguida.
@@ -99,7 +146,7 @@ export default {
 	 * yield* this.delay(1000, () => this.timing(opacity, { to: 1 }));
 	 * ```
 	 */
-	delay,
+	delay: inspected("delay", delay),
 
 	/**
 	 * Executa múltiplas animações (geradores) em paralelo.
@@ -119,7 +166,7 @@ export default {
 	 * // Ambas as animações de opacidade e escala ocorrerão simultaneamente.
 	 * ```
 	 */
-	parallel,
+	parallel: inspected("parallel", parallel),
 
 	/**
 	 * Um alias para `parallel`. Executa múltiplas animações em paralelo.
@@ -139,7 +186,7 @@ export default {
 	 * );
 	 * ```
 	 */
-	all,
+	all: inspected("all", all),
 
 	/**
 	 * Executa múltiplas animações (geradores) em paralelo e termina assim que a primeira delas for concluída.
@@ -164,7 +211,7 @@ export default {
 	 * }
 	 * ```
 	 */
-	any,
+	any: inspected("any", any),
 
 	/**
 	 * Executa múltiplas animações (geradores) em sequência, uma após a outra.
@@ -183,7 +230,7 @@ export default {
 	 * );
 	 * ```
 	 */
-	chain,
+	chain: inspected("chain", chain),
 
 	/**
 	 * Executa múltiplas animações em paralelo, mas com um atraso escalonado entre o início de cada uma.
@@ -203,7 +250,7 @@ export default {
 	 * );
 	 * ```
 	 */
-	stagger,
+	stagger: inspected("stagger", stagger),
 
 	/**
 	 * Executa múltiplas animações em sequência, com um atraso definido entre o fim de uma e o início da próxima.
@@ -223,10 +270,10 @@ export default {
 	 * );
 	 * ```
 	 */
-	sequence,
+	sequence: inspected("sequence", sequence),
 
 	/**
-	 * Executa uma animação (gerador) repetidamente.
+	 * Executa uma animação (gerador) repetidamente. Com movimento reduzido, loops infinitos não são iniciados.
 	 *
 	 * @overload
 	 * @param {LoopCallback} factory Uma função que retorna o gerador da animação para um loop infinito.
@@ -252,5 +299,42 @@ export default {
 	 * ));
 	 * ```
 	 */
-	loop,
+	loop: inspected("loop", loop),
+	/**
+	 * Anima várias propriedades através de uma lista de quadros-chave ao longo de uma única duração, no estilo da Web Animations API.
+	 * Cada quadro define um `offset` (de `0` a `1`; se omitido, distribuído igualmente) e, opcionalmente, o `easing` usado até o próximo quadro.
+	 * Números são interpolados diretamente, valores com unidade (`"10px"`) mantêm a unidade e os demais são tratados como cores.
+	 *
+	 * @param {Record<string, SharedValue<any>> | KeyframesCallback} target Um objeto de `SharedValue` (como o `state`) ou uma função que recebe os valores de cada quadro.
+	 * @param {KeyframeDefinition[]} frames A lista de quadros-chave.
+	 * @param {KeyframesConfig} [config] `duration` (padrão `300`), `easing` padrão entre quadros (padrão `Easing.linear`) e `delay`.
+	 * @returns {InputGenerator} Um gerador que, quando executado, realiza a animação.
+	 * @example
+	 * ```ts
+	 * yield* this.keyframes(state, [
+	 *   { offset: 0, opacity: 0, x: -20 },
+	 *   { offset: 0.4, opacity: 1, easing: this.Easing.out(this.Easing.cubic) },
+	 *   { offset: 1, x: 0 },
+	 * ], { duration: 800 });
+	 * ```
+	 */
+	keyframes: inspected("keyframes", keyframes),
+
+	/**
+	 * Cria uma linha do tempo no estilo GSAP, em que várias animações são posicionadas por tempo absoluto,
+	 * por rótulos (`"intro+=200"`) ou relativas às anteriores (`"<"`, `">"`, `"+=100"`), e executadas com `play()`.
+	 *
+	 * @returns {Timeline} Um construtor de linha do tempo.
+	 * @example
+	 * ```ts
+	 * yield* this.timeline()
+	 *   .label("intro")
+	 *   .add(() => this.dom(title).opacity({ from: 0, to: 1, duration: 400 }), "intro")
+	 *   .add(() => this.dom(subtitle).translateY({ from: 20, to: 0, duration: 400 }), "intro+=200")
+	 *   .label("outro", "intro+=1000")
+	 *   .add(() => this.dom(button).scale({ from: 0.8, to: 1, duration: 300 }), "outro")
+	 *   .play();
+	 * ```
+	 */
+	timeline: () => new Timeline(),
 };
@@ -0,0 +1,139 @@
+import { InputGenerator, all } from "@ismael1361/animation";
+import DOMAnimationHelpers from "./DOMAnimationHelpers";
+import { wait } from "./Timing";
+import { DOMAnimationGroupOptions, DOMElement, DOMTargets, StaggerFrom } from "./Types";
+
+/**
+ * Helpers de `DOMAnimationHelpers` disponíveis em `domAll`.
+ */
+const GROUP_METHODS = [
+	"opacity",
+	"width",
+	"height",
+	"margin",
+	"marginTop",
+	"marginBottom",
+	"marginLeft",
+	"marginRight",
+	"backgroundColor",
+	"backgroundPosition",
+	"backgroundPositionX",
+	"backgroundPositionY",
+	"backgroundSize",
+	"boxShadow",
+	"translate",
+	"translateX",
+	"translateY",
+	"scale",
+	"scaleX",
+	"scaleY",
+	"rotate",
+	"skew",
+	"skewX",
+	"skewY",
+	"layout",
+	"keyframes",
+	"attr",
+	"strokeDashoffset",
+	"draw",
+	"path",
+	"style",
+	"cssVar",
+] as const;
+
+type GroupMethod = (typeof GROUP_METHODS)[number];
+
+/**
+ * Os argumentos de cada helper de `DOMAnimationHelpers` disponível em `domAll`.
+ */
+type HelperArguments<E extends DOMElement> = { [K in GroupMethod]: Parameters<DOMAnimationHelpers<E>[K]> };
+
+/**
+ * Os helpers de `DOMAnimationHelpers` disponíveis em `domAll`, cada um relacionado aos seus argumentos, para que
+ * `helpers[method](...args)` seja verificado para qualquer `method`.
+ */
+type HelperMethods<E extends DOMElement> = { [K in GroupMethod]: (...args: HelperArguments<E>[K]) => InputGenerator };
+
+/**
+ * Cada argumento de um helper pode ser o próprio valor, igual para todos os elementos, ou uma função que o calcula por elemento.
+ */
+export type GroupArguments<A extends unknown[], E extends DOMElement> = { [I in keyof A]: A[I] | ((index: number, element: NonNullable<E>) => A[I]) };
+
+/**
+ * Os helpers de `DOMAnimationHelpers`, executados em paralelo sobre todos os elementos de `domAll`.
+ */
+export type DOMAnimationGroup<E extends DOMElement> = {
+	[K in GroupMethod]: (...args: GroupArguments<HelperArguments<E>[K], E>) => InputGenerator;
+};
+
+/**
+ * Resolve os argumentos de um helper para um elemento, chamando os que são funções. `map` não preserva o tipo de cada
+ * posição da tupla, então o resultado é tipado como os argumentos originais.
+ */
+const resolveArguments = <A extends unknown[], E extends DOMElement>(args: GroupArguments<A, E>, index: number, element: NonNullable<E>): A => {
+	return args.map((arg) => (typeof arg === "function" ? arg(index, element) : arg)) as A;
+};
+
+const resolveTargets = <E extends DOMElement>(targets: DOMTargets<E>): NonNullable<E>[] => {
+	const list = "current" in targets && !(targets instanceof Element) ? targets.current : targets;
+
+	return Array.from((list ?? []) as ArrayLike<E | React.RefObject<E>>)
+		.map((target) => (target instanceof Element ? target : target?.current))
+		.filter((element): element is NonNullable<E> => element instanceof Element);
+};
+
+/**
+ * Ordem de início de cada elemento: a distância, em posições, até o elemento definido por `from`.
+ */
+const staggerOrder = (index: number, count: number, from: StaggerFrom): number => {
+	switch (from) {
+		case "start":
+			return index;
+		case "end":
+			return count - 1 - index;
+		case "center":
+			return Math.abs(index - (count - 1) / 2);
+		default:
+			return Math.abs(index - from);
+	}
+};
+
+/**
+ * Cria o conjunto de helpers de `domAll`. Os elementos são resolvidos a cada chamada de um helper, então refs
+ * preenchidas depois da criação do conjunto também são animadas.
+ */
+export const createDOMAnimationGroup = <E extends DOMElement>(targets: DOMTargets<E>, options: DOMAnimationGroupOptions = {}): DOMAnimationGroup<E> => {
+	const { stagger = 0, from = "start", ...domOptions } = options;
+
+	const createMethod =
+		<K extends GroupMethod>(method: K) =>
+		(...args: GroupArguments<HelperArguments<E>[K], E>): InputGenerator => {
+			const elements = resolveTargets(targets);
+
+			const animations = elements.map((element, index) => {
+				const values = resolveArguments<HelperArguments<E>[K], E>(args, index, element);
+				const delay = staggerOrder(index, elements.length, from) * stagger;
+				const helpers: HelperMethods<E> = new DOMAnimationHelpers<E>(element, domOptions);
+
+				return function* (): InputGenerator {
+					if (delay > 0) {
+						yield* wait(delay);
+					}
+
+					yield* helpers[method](...values);
+				};
+			});
+
+			return all(...animations);
+		};
+
+	const group = {} as DOMAnimationGroup<E>;
+
+	const define = <K extends GroupMethod>(target: { [M in K]: (...args: GroupArguments<HelperArguments<E>[M], E>) => InputGenerator }, method: K) => {
+		target[method] = createMethod(method);
+	};
+
+	GROUP_METHODS.forEach((method) => define(group, method));
+
+	return group;
+};
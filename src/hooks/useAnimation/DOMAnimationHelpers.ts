@@ -1,17 +1,244 @@
-import { InputGenerator } from "@ismael1361/animation";
-import { DOMElement, MarginDefinition, ValueType, ValueUnit } from "./Types";
+import { InputGenerator, TimingConfig } from "@ismael1361/animation";
+import {
+	BoxShadowDefinition,
+	DOMAnimationOptions,
+	DOMElement,
+	KeyframeDefinition,
+	KeyframesConfig,
+	KeyframeValue,
+	LayoutOffset,
+	MarginDefinition,
+	SpringConfig,
+	SpringValueAngle,
+	SpringValueStyle,
+	SpringValueType,
+	SpringValueUnit,
+	TransformFunction,
+	ValueAngle,
+	ValueStyle,
+	ValueType,
+	ValueUnit,
+} from "./Types";
+import AnimationClock from "./AnimationClock";
 import AnimationScope from "./AnimationScope";
-import { parseMargin } from "./Utils";
+import { keyframes } from "./Keyframes";
+import { normalizePaths, interpolatePaths } from "./Path";
+import { sampleEasing, supportsWebAnimations, webAnimation, WebAnimationTrack } from "./WebAnimation";
+import {
+	TRANSFORM_ORDER,
+	UNITLESS,
+	composeTransform,
+	isSpringConfig,
+	mixValues,
+	parseBoxShadow,
+	parseMargin,
+	parseTransform,
+	toNumberList,
+	toStyleProperty,
+	toUnitValue,
+	transparentBoxShadow,
+} from "./Utils";
 import { Color, interpolate } from "@ismael1361/utils";
 
+interface TransformState {
+	/**
+	 * Funções do `transform` inline que os helpers não controlam (como `perspective`), mantidas antes das partes.
+	 */
+	base: string;
+	parts: Partial<Record<TransformFunction, string>>;
+	/**
+	 * Deslocamento de layout aplicado por `layout` (`translate` + `scale`, antes das demais funções), para que uma nova
+	 * medição possa descontá-lo e uma animação interrompida continue da posição visual atual. Ausente na identidade.
+	 */
+	layout?: LayoutOffset;
+	/**
+	 * Quantas animações de `transform` estão em execução no elemento.
+	 */
+	active: number;
+}
+
+/**
+ * Partes de `transform` atualmente aplicadas por elemento, para que helpers executados em paralelo
+ * (ex.: `translate` e `rotate`) sejam combinados em uma única string em vez de se sobrescreverem.
+ * A entrada é criada a partir do `transform` inline do elemento e descartada quando a última animação termina, exceto
+ * enquanto houver um deslocamento de layout aplicado.
+ */
+const transforms = new WeakMap<Element, TransformState>();
+
+const transformState = (element: Element & ElementCSSInlineStyle): TransformState => {
+	let state = transforms.get(element);
+	if (!state) transforms.set(element, (state = { ...parseTransform(element.style.transform), active: 0 }));
+	return state;
+};
+
+const releaseTransform = (element: Element, state: TransformState) => {
+	if (state.active === 0 && !state.layout && transforms.get(element) === state) transforms.delete(element);
+};
+
+const isIdentity = (offset: LayoutOffset) => offset.x === 0 && offset.y === 0 && offset.scaleX === 1 && offset.scaleY === 1;
+
+const composeLayout = (offset: LayoutOffset | undefined): string => {
+	if (!offset) return "";
+	return `translate(${offset.x.toFixed(2)}px, ${offset.y.toFixed(2)}px) scale(${offset.scaleX.toFixed(3)}, ${offset.scaleY.toFixed(3)})`;
+};
+
+const formatTransform = (fn: TransformFunction, value: KeyframeValue): string => {
+	if (typeof value !== "number") return String(value);
+	if (fn.startsWith("translate")) return value.toFixed(2) + "px";
+	if (fn.startsWith("scale")) return value.toFixed(3);
+	return value.toFixed(2) + "deg";
+};
+
+/**
+ * Identidades das molas por elemento e propriedade, usadas para que uma nova mola na mesma propriedade
+ * interrompa a anterior mantendo sua velocidade.
+ */
+const springKeys = new WeakMap<Element, Record<string, object>>();
+
+const springKey = (element: Element, property: string): object => {
+	const keys = springKeys.get(element) ?? {};
+	springKeys.set(element, keys);
+	return (keys[property] ??= {});
+};
+
 /**
  * Uma coleção de helpers de animação para manipular propriedades de elementos DOM.
+ * Todos os helpers aceitam uma configuração de `timing` ou, no lugar dela, uma configuração de mola
+ * (`stiffness`, `damping`, `mass`, `velocity`, `restThreshold`), executada com `spring`.
+ *
+ * Com `backend: "waapi"`, as configurações de `timing` de `opacity`, `backgroundColor` e das funções de `transform`
+ * (`translate`, `scale`, `rotate`, `skew`, ...) são compiladas em uma animação de `element.animate()`. Molas, os demais
+ * helpers e navegadores sem a Web Animations API (ou curvas de `easing` que não possam ser amostradas) continuam no laço de quadros.
+ * Enquanto uma função de `transform` é animada pelo navegador, ela é aplicada após as demais partes do `transform`.
  */
 export default class DOMAnimationHelpers<E extends DOMElement> {
-	constructor(private element: E | React.RefObject<E>) {}
+	constructor(
+		private element: E | React.RefObject<E>,
+		private options: DOMAnimationOptions = {},
+	) {}
 
 	get current(): E | null {
-		return this.element instanceof Element ? (this.element as E) : this.element?.current ?? null;
+		return this.element instanceof Element ? (this.element as E) : (this.element?.current ?? null);
+	}
+
+	private animate(property: string | null, callback: (value: number) => void, config: TimingConfig | SpringConfig, track?: Omit<WebAnimationTrack, "apply">): InputGenerator {
+		const element = this.current;
+
+		if (isSpringConfig(config)) {
+			return AnimationScope.spring(callback, config, element && property ? springKey(element, property) : callback);
+		}
+
+		if (track && this.options.backend === "waapi" && supportsWebAnimations(element, track.composite)) {
+			const samples = sampleEasing(config.easing);
+			if (samples) return webAnimation(element, { ...track, apply: callback }, samples, config);
+		}
+
+		return AnimationScope.timing(callback, config);
+	}
+
+	/**
+	 * Quadros-chave de uma função de `transform` para a Web Animations API, somados (`composite: "add"`) às demais partes,
+	 * que deixam de incluir a função enquanto o navegador a anima.
+	 */
+	private transformTrack(fn: TransformFunction, format: (value: number) => string): Omit<WebAnimationTrack, "apply"> {
+		return {
+			frame: (value) => ({ transform: `${fn}(${format(value)})` }),
+			composite: "add",
+			start: () => this.setTransform(fn, undefined),
+		};
+	}
+
+	/**
+	 * Executa uma animação de `transform`, mantendo as partes do elemento enquanto ela durar. Quando a última animação de
+	 * `transform` do elemento termina ou é interrompida, as partes são descartadas: o `transform` inline permanece e é lido
+	 * de novo pela próxima animação.
+	 */
+	private *transforming(animation: InputGenerator): InputGenerator {
+		const element = this.current;
+		const state = element && transformState(element);
+		if (state) state.active++;
+
+		try {
+			return yield* animation;
+		} finally {
+			if (element && state) {
+				state.active--;
+				releaseTransform(element, state);
+			}
+		}
+	}
+
+	/**
+	 * Altera o estado de `transform` do elemento e escreve o resultado: o deslocamento de layout, as funções do `transform`
+	 * inline que os helpers não controlam e as partes dos helpers, nessa ordem.
+	 */
+	private updateTransform(update: (state: TransformState) => void) {
+		const element = this.current;
+		if (!element) return;
+
+		AnimationClock.current?.preserve(element, "transform", () => {
+			const previous = element.style.transform;
+			const state = transforms.get(element);
+			const saved = state && { base: state.base, parts: { ...state.parts }, layout: state.layout, active: 0 };
+
+			return () => {
+				element.style.transform = previous;
+				if (saved) transforms.set(element, saved);
+				else transforms.delete(element);
+			};
+		});
+
+		const state = transformState(element);
+		update(state);
+
+		element.style.transform = [composeLayout(state.layout), state.base, composeTransform(state.parts)].filter(Boolean).join(" ");
+		releaseTransform(element, state);
+	}
+
+	/**
+	 * Atualiza uma função do `transform` do elemento, combinada com as dos demais helpers e com as funções do `transform`
+	 * inline que eles não controlam. Funções como `rotate` já presentes no estilo inline são substituídas pelo helper.
+	 */
+	private setTransform(fn: TransformFunction, value: string | undefined) {
+		this.updateTransform((state) => {
+			if (value === undefined) delete state.parts[fn];
+			else state.parts[fn] = value;
+		});
+	}
+
+	/**
+	 * Escreve uma propriedade de estilo inline, registrando no relógio da animação (veja `AnimationClock.preserve`) como
+	 * restaurar o valor anterior quando a animação for reexecutada desde o início.
+	 * @param name O nome da propriedade no formato do CSS (`margin-top`).
+	 */
+	private setStyle(name: string, value: string) {
+		const element = this.current;
+		if (!element) return;
+
+		const style = element.style;
+
+		AnimationClock.current?.preserve(element, name, () => {
+			const previous = style.getPropertyValue(name);
+			const priority = style.getPropertyPriority(name);
+			return () => (previous ? style.setProperty(name, previous, priority) : style.removeProperty(name));
+		});
+
+		style.setProperty(name, value);
+	}
+
+	/**
+	 * Escreve um atributo do elemento, registrando no relógio da animação como restaurar o valor anterior (veja `setStyle`).
+	 */
+	private setAttribute(name: string, value: string) {
+		const element = this.current;
+		if (!element) return;
+
+		AnimationClock.current?.preserve(element, "attr:" + name, () => {
+			const previous = element.getAttribute(name);
+			return () => (previous === null ? element.removeAttribute(name) : element.setAttribute(name, previous));
+		});
+
+		element.setAttribute(name, value);
 	}
 
 	/**
@@ -26,10 +253,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	opacity(config: ValueType<number>): InputGenerator {
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.opacity = i.toFixed(2);
-		}, config);
+	opacity(config: ValueType<number> | SpringValueType<number>): InputGenerator {
+		return this.animate(
+			"opacity",
+			(i) => {
+				this.setStyle("opacity", i.toFixed(2));
+			},
+			config,
+			{ frame: (i) => ({ opacity: i.toFixed(2) }) },
+		);
 	}
 
 	/**
@@ -47,11 +279,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	width(config: ValueUnit<number>): InputGenerator {
+	width(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.width = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"width",
+			(i) => {
+				this.setStyle("width", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -67,11 +303,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	height(config: ValueUnit<number>): InputGenerator {
+	height(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.height = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"height",
+			(i) => {
+				this.setStyle("height", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -89,20 +329,21 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	margin(config: ValueUnit<MarginDefinition>): InputGenerator {
+	margin(config: ValueUnit<MarginDefinition> | SpringValueUnit<MarginDefinition>): InputGenerator {
 		const { from, to, unit = "px", ...conf } = config || {};
 
 		const fromValue = parseMargin(from);
 		const toValue = parseMargin(to);
 
-		return AnimationScope.timing(
+		return this.animate(
+			null,
 			(i) => {
 				const top = interpolate(i, [0, 1], [fromValue.top, toValue.top]);
 				const right = interpolate(i, [0, 1], [fromValue.right, toValue.right]);
 				const bottom = interpolate(i, [0, 1], [fromValue.bottom, toValue.bottom]);
 				const left = interpolate(i, [0, 1], [fromValue.left, toValue.left]);
 
-				if (this.current) this.current.style.margin = [top, right, bottom, left].map((v) => v.toFixed(2) + unit).join(" ");
+				this.setStyle("margin", [top, right, bottom, left].map((v) => v.toFixed(2) + unit).join(" "));
 			},
 			{
 				from: 0,
@@ -124,11 +365,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	marginTop(config: ValueUnit<number>): InputGenerator {
+	marginTop(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.marginTop = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"marginTop",
+			(i) => {
+				this.setStyle("margin-top", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -143,11 +388,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	marginBottom(config: ValueUnit<number>): InputGenerator {
+	marginBottom(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.marginBottom = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"marginBottom",
+			(i) => {
+				this.setStyle("margin-bottom", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -162,11 +411,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	marginLeft(config: ValueUnit<number>): InputGenerator {
+	marginLeft(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.marginLeft = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"marginLeft",
+			(i) => {
+				this.setStyle("margin-left", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -181,11 +434,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	marginRight(config: ValueUnit<number>): InputGenerator {
+	marginRight(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.marginRight = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"marginRight",
+			(i) => {
+				this.setStyle("margin-right", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -200,20 +457,22 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	backgroundColor(config: ValueType<string | Color>): InputGenerator {
+	backgroundColor(config: ValueType<string | Color> | SpringValueType<string | Color>): InputGenerator {
 		const { from, to, ...conf } = config || {};
 		const fromColor = new Color(from);
 
-		return AnimationScope.timing(
+		return this.animate(
+			null,
 			(i) => {
 				const color = fromColor.blend(to, i);
-				if (this.current) this.current.style.backgroundColor = color.toString();
+				this.setStyle("background-color", color.toString());
 			},
 			{
 				from: 0,
 				to: 1,
 				...conf,
 			},
+			{ frame: (i) => ({ backgroundColor: fromColor.blend(to, i).toString() }) },
 		);
 	}
 
@@ -229,15 +488,16 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	backgroundPosition(config: ValueUnit<[number, number]>): InputGenerator {
+	backgroundPosition(config: ValueUnit<[number, number]> | SpringValueUnit<[number, number]>): InputGenerator {
 		const { from, to, unit = "px", ...conf } = config || {};
 
-		return AnimationScope.timing(
+		return this.animate(
+			null,
 			(i) => {
 				const x = interpolate(i, [0, 1], [from[0], to[0]]);
 				const y = interpolate(i, [0, 1], [from[1], to[1]]);
 
-				if (this.current) this.current.style.backgroundPosition = [x.toFixed(2) + unit, y.toFixed(2) + unit].join(" ");
+				this.setStyle("background-position", [x.toFixed(2) + unit, y.toFixed(2) + unit].join(" "));
 			},
 			{
 				from: 0,
@@ -259,11 +519,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	backgroundPositionX(config: ValueUnit<number>): InputGenerator {
+	backgroundPositionX(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.backgroundPositionX = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"backgroundPositionX",
+			(i) => {
+				this.setStyle("background-position-x", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -278,11 +542,15 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	backgroundPositionY(config: ValueUnit<number>): InputGenerator {
+	backgroundPositionY(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
 		const { unit = "px", ...conf } = config || {};
-		return AnimationScope.timing((i) => {
-			if (this.current) this.current.style.backgroundPositionY = i.toFixed(2) + unit;
-		}, conf);
+		return this.animate(
+			"backgroundPositionY",
+			(i) => {
+				this.setStyle("background-position-y", i.toFixed(2) + unit);
+			},
+			conf,
+		);
 	}
 
 	/**
@@ -298,17 +566,520 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 	 * });
 	 * ```
 	 */
-	backgroundSize(config: ValueUnit<[number] | [number, number]>): InputGenerator {
+	backgroundSize(config: ValueUnit<[number] | [number, number]> | SpringValueUnit<[number] | [number, number]>): InputGenerator {
 		const { from, to, unit = "px", ...conf } = config || {};
 		const fromValue = [from?.[0], from?.[1] || from?.[0]];
 		const toValue = [to?.[0], to?.[1] || to?.[0]];
 
-		return AnimationScope.timing(
+		return this.animate(
+			null,
 			(i) => {
 				const width = interpolate(i, [0, 1], [fromValue[0], toValue[0]]);
 				const height = interpolate(i, [0, 1], [fromValue[1], toValue[1]]);
 
-				if (this.current) this.current.style.backgroundSize = [width.toFixed(2) + unit, height.toFixed(2) + unit].join(" ");
+				this.setStyle("background-size", [width.toFixed(2) + unit, height.toFixed(2) + unit].join(" "));
+			},
+			{
+				from: 0,
+				to: 1,
+				...conf,
+			},
+		);
+	}
+
+	/**
+	 * Anima a propriedade `boxShadow` de um elemento DOM.
+	 * Aceita strings CSS (`"0 2px 4px rgba(0,0,0,.2), inset 0 0 0 1px red"`) ou listas de `BoxShadowDefinition`.
+	 * Cada camada tem seus deslocamentos, desfoque, propagação e cor interpolados; quando as listas têm tamanhos
+	 * diferentes, a menor é completada com sombras transparentes.
+	 * @param config Configurações da animação, incluindo `from` (sombra inicial), `to` (sombra final) e `duration`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const card = useRef(null);
+	 * useAnimation(function*() {
+	 *   // Eleva o card
+	 *   yield* this.dom(card).boxShadow({ from: "0 1px 2px rgba(0,0,0,0.2)", to: "0 8px 24px rgba(0,0,0,0.3)", duration: 300 });
+	 *   // Adiciona um contorno interno
+	 *   yield* this.dom(card).boxShadow({ from: "none", to: "inset 0 0 0 2px #1e88e5", duration: 300 });
+	 * });
+	 * ```
+	 */
+	boxShadow(config: ValueType<string | BoxShadowDefinition[]> | SpringValueType<string | BoxShadowDefinition[]>): InputGenerator {
+		const { from, to, ...conf } = config || {};
+		const fromShadows = typeof from === "string" ? parseBoxShadow(from) : [...(from ?? [])];
+		const toShadows = typeof to === "string" ? parseBoxShadow(to) : [...(to ?? [])];
+
+		const length = Math.max(fromShadows.length, toShadows.length);
+		const currentColor = this.current ? window.getComputedStyle(this.current).color || "rgb(0, 0, 0)" : "rgb(0, 0, 0)";
+
+		const layers = Array.from({ length }, (_, index) => {
+			const a = fromShadows[index] ?? transparentBoxShadow(toShadows[index].inset);
+			const b = toShadows[index] ?? transparentBoxShadow(a.inset);
+
+			const resolveColor = (color: string | Color) => (typeof color === "string" && ["initial", "currentcolor"].includes(color.toLowerCase()) ? currentColor : color);
+
+			return {
+				inset: b.inset,
+				offsetX: [toUnitValue(a.offsetX), toUnitValue(b.offsetX)],
+				offsetY: [toUnitValue(a.offsetY), toUnitValue(b.offsetY)],
+				blurRadius: [toUnitValue(a.blurRadius), toUnitValue(b.blurRadius)],
+				spreadRadius: [toUnitValue(a.spreadRadius), toUnitValue(b.spreadRadius)],
+				color: [new Color(resolveColor(a.color)), resolveColor(b.color)] as const,
+			};
+		});
+
+		const lerp = (i: number, [a, b]: [number, string][]) => interpolate(i, [0, 1], [a[0], b[0]]).toFixed(2) + (b[1] || a[1] || "px");
+
+		return this.animate(
+			null,
+			(i) => {
+				const value = layers
+					.map(({ inset, offsetX, offsetY, blurRadius, spreadRadius, color }) => {
+						return [inset ? "inset" : "", lerp(i, offsetX), lerp(i, offsetY), lerp(i, blurRadius), lerp(i, spreadRadius), color[0].blend(color[1], i).toString()].filter(Boolean).join(" ");
+					})
+					.join(", ");
+
+				this.setStyle("box-shadow", value || "none");
+			},
+			{
+				from: 0,
+				to: 1,
+				...conf,
+			},
+		);
+	}
+
+	/**
+	 * Anima a função `translate` da propriedade `transform` de um elemento DOM.
+	 * Pode ser combinada em paralelo com os demais helpers de transformação no mesmo elemento.
+	 * @param config Configurações da animação, incluindo `from` (posição inicial `[x, y]`), `to` (posição final `[x, y]`), `duration`, e `unit` (padrão 'px').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).translate({ from: [0, 0], to: [100, 50], duration: 500 });
+	 * });
+	 * ```
+	 */
+	translate(config: ValueUnit<[number, number]> | SpringValueUnit<[number, number]>): InputGenerator {
+		const { from, to, unit = "px", ...conf } = config || {};
+
+		const format = (i: number) => {
+			const x = interpolate(i, [0, 1], [from[0], to[0]]);
+			const y = interpolate(i, [0, 1], [from[1], to[1]]);
+			return [x.toFixed(2) + unit, y.toFixed(2) + unit].join(", ");
+		};
+
+		return this.transforming(
+			this.animate(
+				null,
+				(i) => {
+					this.setTransform("translate", format(i));
+				},
+				{
+					from: 0,
+					to: 1,
+					...conf,
+				},
+				this.transformTrack("translate", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `translateX` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from`, `to`, `duration`, e `unit` (padrão 'px').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).translateX({ from: -100, to: 0, unit: '%', duration: 500 });
+	 * });
+	 * ```
+	 */
+	translateX(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
+		const { unit = "px", ...conf } = config || {};
+		const format = (i: number) => i.toFixed(2) + unit;
+
+		return this.transforming(
+			this.animate(
+				"translateX",
+				(i) => {
+					this.setTransform("translateX", format(i));
+				},
+				conf,
+				this.transformTrack("translateX", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `translateY` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from`, `to`, `duration`, e `unit` (padrão 'px').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).translateY({ from: 20, to: 0, duration: 500 });
+	 * });
+	 * ```
+	 */
+	translateY(config: ValueUnit<number> | SpringValueUnit<number>): InputGenerator {
+		const { unit = "px", ...conf } = config || {};
+		const format = (i: number) => i.toFixed(2) + unit;
+
+		return this.transforming(
+			this.animate(
+				"translateY",
+				(i) => {
+					this.setTransform("translateY", format(i));
+				},
+				conf,
+				this.transformTrack("translateY", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `scale` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from` (escala inicial `number | [x, y]`), `to` (escala final) e `duration`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   // Escala uniforme
+	 *   yield* this.dom(myDiv).scale({ from: 0.5, to: 1, duration: 500 });
+	 *   // Escala independente em cada eixo
+	 *   yield* this.dom(myDiv).scale({ from: [1, 1], to: [1.5, 0.8], duration: 500 });
+	 * });
+	 * ```
+	 */
+	scale(config: ValueType<number | [number, number]> | SpringValueType<number | [number, number]>): InputGenerator {
+		const { from, to, ...conf } = config || {};
+		const fromValue = typeof from === "number" ? [from, from] : from;
+		const toValue = typeof to === "number" ? [to, to] : to;
+
+		const format = (i: number) => {
+			const x = interpolate(i, [0, 1], [fromValue[0], toValue[0]]);
+			const y = interpolate(i, [0, 1], [fromValue[1], toValue[1]]);
+			return [x.toFixed(3), y.toFixed(3)].join(", ");
+		};
+
+		return this.transforming(
+			this.animate(
+				null,
+				(i) => {
+					this.setTransform("scale", format(i));
+				},
+				{
+					from: 0,
+					to: 1,
+					...conf,
+				},
+				this.transformTrack("scale", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `scaleX` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, como `from`, `to`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const bar = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(bar).scaleX({ from: 0, to: 1, duration: 500 });
+	 * });
+	 * ```
+	 */
+	scaleX(config: ValueType<number> | SpringValueType<number>): InputGenerator {
+		const format = (i: number) => i.toFixed(3);
+
+		return this.transforming(
+			this.animate(
+				"scaleX",
+				(i) => {
+					this.setTransform("scaleX", format(i));
+				},
+				config,
+				this.transformTrack("scaleX", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `scaleY` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, como `from`, `to`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const panel = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(panel).scaleY({ from: 0.8, to: 1, duration: 300 });
+	 * });
+	 * ```
+	 */
+	scaleY(config: ValueType<number> | SpringValueType<number>): InputGenerator {
+		const format = (i: number) => i.toFixed(3);
+
+		return this.transforming(
+			this.animate(
+				"scaleY",
+				(i) => {
+					this.setTransform("scaleY", format(i));
+				},
+				config,
+				this.transformTrack("scaleY", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `rotate` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from`, `to`, `duration`, e `unit` (padrão 'deg').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).rotate({ from: 0, to: 360, duration: 1000 });
+	 * });
+	 * ```
+	 */
+	rotate(config: ValueAngle<number> | SpringValueAngle<number>): InputGenerator {
+		const { unit = "deg", ...conf } = config || {};
+		const format = (i: number) => i.toFixed(2) + unit;
+
+		return this.transforming(
+			this.animate(
+				"rotate",
+				(i) => {
+					this.setTransform("rotate", format(i));
+				},
+				conf,
+				this.transformTrack("rotate", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `skew` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from` (inclinação inicial `number | [x, y]`), `to` (inclinação final), `duration`, e `unit` (padrão 'deg').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).skew({ from: [0, 0], to: [15, 5], duration: 500 });
+	 * });
+	 * ```
+	 */
+	skew(config: ValueAngle<number | [number, number]> | SpringValueAngle<number | [number, number]>): InputGenerator {
+		const { from, to, unit = "deg", ...conf } = config || {};
+		const fromValue = typeof from === "number" ? [from, 0] : from;
+		const toValue = typeof to === "number" ? [to, 0] : to;
+
+		const format = (i: number) => {
+			const x = interpolate(i, [0, 1], [fromValue[0], toValue[0]]);
+			const y = interpolate(i, [0, 1], [fromValue[1], toValue[1]]);
+			return [x.toFixed(2) + unit, y.toFixed(2) + unit].join(", ");
+		};
+
+		return this.transforming(
+			this.animate(
+				null,
+				(i) => {
+					this.setTransform("skew", format(i));
+				},
+				{
+					from: 0,
+					to: 1,
+					...conf,
+				},
+				this.transformTrack("skew", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `skewX` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from`, `to`, `duration`, e `unit` (padrão 'deg').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).skewX({ from: 0, to: 15, duration: 500 });
+	 * });
+	 * ```
+	 */
+	skewX(config: ValueAngle<number> | SpringValueAngle<number>): InputGenerator {
+		const { unit = "deg", ...conf } = config || {};
+		const format = (i: number) => i.toFixed(2) + unit;
+
+		return this.transforming(
+			this.animate(
+				"skewX",
+				(i) => {
+					this.setTransform("skewX", format(i));
+				},
+				conf,
+				this.transformTrack("skewX", format),
+			),
+		);
+	}
+
+	/**
+	 * Anima a função `skewY` da propriedade `transform` de um elemento DOM.
+	 * @param config Configurações da animação, incluindo `from`, `to`, `duration`, e `unit` (padrão 'deg').
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).skewY({ from: 0, to: -10, duration: 500 });
+	 * });
+	 * ```
+	 */
+	skewY(config: ValueAngle<number> | SpringValueAngle<number>): InputGenerator {
+		const { unit = "deg", ...conf } = config || {};
+		const format = (i: number) => i.toFixed(2) + unit;
+
+		return this.transforming(
+			this.animate(
+				"skewY",
+				(i) => {
+					this.setTransform("skewY", format(i));
+				},
+				conf,
+				this.transformTrack("skewY", format),
+			),
+		);
+	}
+
+	/**
+	 * Deslocamento de layout atualmente aplicado ao elemento por `layout` (identidade quando não há nenhum).
+	 * Ao ser atribuído, aplica imediatamente o `translate` e o `scale` correspondentes, antes das demais funções de
+	 * `transform` e sem substituir as dos helpers `translate` e `scale`; a identidade os remove do estilo.
+	 */
+	get layoutOffset(): LayoutOffset {
+		const element = this.current;
+		return (element && transforms.get(element)?.layout) || { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+	}
+
+	set layoutOffset(offset: LayoutOffset) {
+		this.updateTransform((state) => {
+			state.layout = isIdentity(offset) ? undefined : offset;
+		});
+	}
+
+	/**
+	 * Anima o deslocamento de layout de um elemento DOM, combinando `translate` e `scale` (a partir do centro do elemento).
+	 * É a etapa "Play" da técnica FLIP usada por `useLayoutAnimation`.
+	 * @param config Configurações da animação, onde `from` e `to` são deslocamentos `{ x, y, scaleX, scaleY }`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).layout({ from: { x: -100, y: 0, scaleX: 0.5, scaleY: 1 }, to: { x: 0, y: 0, scaleX: 1, scaleY: 1 }, duration: 300 });
+	 * });
+	 * ```
+	 */
+	layout(config: ValueType<LayoutOffset> | SpringValueType<LayoutOffset>): InputGenerator {
+		const { from, to, ...conf } = config || {};
+
+		return this.transforming(
+			this.animate(
+				null,
+				(i) => {
+					this.layoutOffset = {
+						x: interpolate(i, [0, 1], [from.x, to.x]),
+						y: interpolate(i, [0, 1], [from.y, to.y]),
+						scaleX: interpolate(i, [0, 1], [from.scaleX, to.scaleX]),
+						scaleY: interpolate(i, [0, 1], [from.scaleY, to.scaleY]),
+					};
+				},
+				{
+					from: 0,
+					to: 1,
+					...conf,
+				},
+			),
+		);
+	}
+
+	/**
+	 * Anima várias propriedades de estilo de um elemento DOM através de uma lista de quadros-chave (veja `keyframes`).
+	 * Funções de `transform` (`translateX`, `scale`, `rotate`, ...) são combinadas com as dos demais helpers; números recebem
+	 * `px` (ou `deg` em rotações e inclinações), exceto em propriedades sem unidade como `opacity` e `scale`.
+	 * @param frames A lista de quadros-chave.
+	 * @param config Configurações da animação: `duration`, `easing` e `delay`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).keyframes([
+	 *     { opacity: 0, translateY: 20 },
+	 *     { offset: 0.6, opacity: 1, backgroundColor: "#ff0000" },
+	 *     { translateY: 0, backgroundColor: "#0000ff" },
+	 *   ], { duration: 1000 });
+	 * });
+	 * ```
+	 */
+	keyframes(frames: KeyframeDefinition[], config?: KeyframesConfig): InputGenerator {
+		return this.transforming(
+			keyframes(
+				(values) => {
+					for (const property in values) {
+						const value = values[property];
+
+						if ((TRANSFORM_ORDER as string[]).includes(property)) {
+							this.setTransform(property as TransformFunction, formatTransform(property as TransformFunction, value));
+						} else {
+							const unit = typeof value === "number" && !property.startsWith("--") && !UNITLESS.includes(property) ? "px" : "";
+							this.setStyle(toStyleProperty(property), String(value) + unit);
+						}
+					}
+				},
+				frames,
+				config,
+			),
+		);
+	}
+
+	/**
+	 * Anima um atributo numérico de um elemento, como `r`, `cx`, `stroke-width` ou `viewBox` em elementos SVG.
+	 * Atributos com vários números (como `viewBox` ou `points`) aceitam listas, como `[0, 0, 100, 100]` ou `"0 0 100 100"`.
+	 * @param name O nome do atributo.
+	 * @param config Configurações da animação, como `from`, `to`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const circle = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(circle).attr("r", { from: 10, to: 40, duration: 500 });
+	 *   yield* this.dom(svg).attr("viewBox", { from: "0 0 100 100", to: [25, 25, 50, 50], duration: 800 });
+	 * });
+	 * ```
+	 */
+	attr(name: string, config: ValueType<number | number[] | string> | SpringValueType<number | number[] | string>): InputGenerator {
+		const { from, to, ...conf } = config || {};
+		const fromValue = toNumberList(from);
+		const toValue = toNumberList(to);
+
+		return this.animate(
+			null,
+			(i) => {
+				const values = toValue.map((value, index) => interpolate(i, [0, 1], [fromValue[index] ?? value, value]));
+				this.setAttribute(name, values.map((value) => +value.toFixed(3)).join(" "));
 			},
 			{
 				from: 0,
@@ -317,4 +1088,158 @@ export default class DOMAnimationHelpers<E extends DOMElement> {
 			},
 		);
 	}
+
+	/**
+	 * Anima a propriedade `stroke-dashoffset` de um elemento SVG.
+	 * @param config Configurações da animação, como `from`, `to`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const line = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(line).strokeDashoffset({ from: 0, to: 20, duration: 1000 });
+	 * });
+	 * ```
+	 */
+	strokeDashoffset(config: ValueType<number> | SpringValueType<number>): InputGenerator {
+		return this.animate(
+			"strokeDashoffset",
+			(i) => {
+				this.setStyle("stroke-dashoffset", i.toFixed(2));
+			},
+			config,
+		);
+	}
+
+	/**
+	 * Efeito de "desenhar" o contorno de um elemento SVG (`path`, `circle`, `line`, ...). Usa `getTotalLength()` para
+	 * definir `stroke-dasharray` e anima `stroke-dashoffset`, onde `0` é o contorno oculto e `1` é o contorno completo.
+	 * @param config Configurações da animação, como `from`, `to`, `duration`, `easing`, com valores de `0` a `1`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const path = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(path).draw({ from: 0, to: 1, duration: 1500 });
+	 * });
+	 * ```
+	 */
+	draw(config: ValueType<number> | SpringValueType<number>): InputGenerator {
+		let length: number | null = null;
+
+		return this.animate(
+			"draw",
+			(i) => {
+				const element = this.current as (SVGElement & Partial<SVGGeometryElement>) | null;
+				if (!element) return;
+
+				if (length === null) {
+					length = element.getTotalLength?.() ?? 0;
+					this.setStyle("stroke-dasharray", length.toFixed(2));
+				}
+
+				this.setStyle("stroke-dashoffset", (length * (1 - i)).toFixed(2));
+			},
+			config,
+		);
+	}
+
+	/**
+	 * Anima o atributo `d` de um `<path>` entre duas formas. Os dois caminhos são normalizados para listas de comandos
+	 * compatíveis (mesma quantidade de subcaminhos e de segmentos cúbicos) antes da interpolação, então podem usar
+	 * comandos e quantidades de pontos diferentes.
+	 * @param config Configurações da animação, onde `from` e `to` são strings de caminho do SVG.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const icon = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(icon).path({
+	 *     from: "M10 10 L90 10 L90 90 L10 90 Z",
+	 *     to: "M50 10 A40 40 0 1 1 49.9 10 Z",
+	 *     duration: 600,
+	 *   });
+	 * });
+	 * ```
+	 */
+	path(config: ValueType<string> | SpringValueType<string>): InputGenerator {
+		const { from, to, ...conf } = config || {};
+		const [fromPath, toPath] = normalizePaths(from, to);
+
+		return this.animate(
+			null,
+			(i) => {
+				this.setAttribute("d", interpolatePaths(fromPath, toPath, i));
+			},
+			{
+				from: 0,
+				to: 1,
+				...conf,
+			},
+		);
+	}
+
+	/**
+	 * Anima qualquer propriedade de estilo de um elemento DOM, como `color`, `borderRadius`, `padding`, `filter` ou `fontSize`.
+	 * Números, valores com unidade, cores e listas com a mesma estrutura (`"10px 20px"`, `"blur(2px) brightness(1.2)"`) são interpolados;
+	 * valores incompatíveis trocam na metade da animação. Se `from` for omitido, parte do valor calculado do elemento no primeiro quadro;
+	 * como as buscas para trás restauram os estilos escritos pela animação antes de reexecutá-la, o ponto de partida não muda.
+	 * @param property O nome da propriedade, em camelCase (`borderRadius`) ou no formato do CSS (`border-radius`).
+	 * @param config Configurações da animação, como `from`, `to`, `unit`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const myDiv = useRef(null);
+	 * useAnimation(function*() {
+	 *   yield* this.dom(myDiv).style("borderRadius", { to: 24, duration: 500 });
+	 *   yield* this.dom(myDiv).style("filter", { from: "blur(0px) brightness(1)", to: "blur(4px) brightness(1.5)", duration: 500 });
+	 *   yield* this.dom(myDiv).style("color", { to: "#ff0000", duration: 500 });
+	 * });
+	 * ```
+	 */
+	style(property: string, config: ValueStyle | SpringValueStyle): InputGenerator {
+		const { from, to, unit, ...conf } = config || {};
+		const name = toStyleProperty(property);
+		const defaultUnit = unit ?? (property.startsWith("--") || UNITLESS.includes(property) ? "" : "px");
+		let start = from;
+
+		return this.animate(
+			null,
+			(i) => {
+				const element = this.current;
+				if (!element) return;
+
+				if (start === undefined) {
+					start = getComputedStyle(element).getPropertyValue(name).trim() || to;
+				}
+
+				const value = mixValues(start, to, i, defaultUnit);
+				this.setStyle(name, typeof value === "number" ? +value.toFixed(3) + defaultUnit : value.toString());
+			},
+			{
+				from: 0,
+				to: 1,
+				...conf,
+			},
+		);
+	}
+
+	/**
+	 * Anima uma propriedade personalizada do CSS (variável), como `--progress`. Números não recebem unidade, a menos que `unit` seja informado.
+	 * Se `from` for omitido, parte do valor atual da variável no elemento.
+	 * @param name O nome da variável, incluindo `--`.
+	 * @param config Configurações da animação, como `from`, `to`, `unit`, `duration`, `easing`.
+	 * @returns Um gerador de animação.
+	 * @example
+	 * ```ts
+	 * const bar = useRef(null);
+	 * useAnimation(function*() {
+	 *   // Usado no CSS como: width: calc(var(--progress) * 100%);
+	 *   yield* this.dom(bar).cssVar("--progress", { from: 0, to: 1, duration: 2000 });
+	 * });
+	 * ```
+	 */
+	cssVar(name: string, config: ValueStyle | SpringValueStyle): InputGenerator {
+		return this.style(name.startsWith("--") ? name : "--" + name, config);
+	}
 }
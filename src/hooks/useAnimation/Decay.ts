@@ -0,0 +1,53 @@
+import { InputGenerator, SharedValue } from "@ismael1361/animation";
+import { isMotionReduced, setValue, timeSincePreviousFrame } from "./Timing";
+import { DecayCallback, DecayConfig } from "./Types";
+
+/**
+ * Anima um `SharedValue<number>` ou executa uma função de retorno de chamada a partir de uma velocidade inicial que
+ * diminui exponencialmente, como um elemento arremessado que desliza até parar.
+ *
+ * A velocidade após `t` milissegundos é `velocity * deceleration ^ t`. A animação termina quando a velocidade fica abaixo
+ * de `restThreshold` ou quando o valor atinge um dos limites de `clamp`.
+ *
+ * @param target `SharedValue<number>` ou callback que recebe o valor atual e retorna `true` para cancelar a animação.
+ * @param config Velocidade inicial e parâmetros da desaceleração (`from`, `velocity`, `deceleration`, `clamp`, `restThreshold`).
+ */
+export function* decay(target: SharedValue<number> | DecayCallback, config: DecayConfig): InputGenerator {
+	const { velocity, deceleration = 0.998, clamp, restThreshold = 0.5 } = config;
+	const rate = -Math.log(deceleration);
+	const start = config.from ?? (target instanceof SharedValue ? target.value : 0);
+
+	const apply = (value: number): boolean => {
+		const limited = clamp ? Math.min(Math.max(value, clamp[0]), clamp[1]) : value;
+
+		if (target instanceof SharedValue) {
+			setValue(target, limited);
+			return false;
+		}
+		return target(limited) === true;
+	};
+
+	const reached = (value: number) => !!clamp && (value <= clamp[0] || value >= clamp[1]);
+
+	if (!(rate > 0) || isMotionReduced()) {
+		apply(rate > 0 ? start + velocity / 1000 / rate : start);
+		return;
+	}
+
+	if (apply(start)) {
+		return;
+	}
+
+	let elapsed = 0;
+
+	while (true) {
+		elapsed += yield* timeSincePreviousFrame();
+
+		const factor = Math.exp(-rate * elapsed);
+		const value = start + ((velocity / 1000) * (1 - factor)) / rate;
+
+		if (apply(value) || reached(value) || Math.abs(velocity * factor) < restThreshold) {
+			return;
+		}
+	}
+}
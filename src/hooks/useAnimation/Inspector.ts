@@ -0,0 +1,268 @@
+import { InputGenerator, SharedValue } from "@ismael1361/animation";
+import { EventEmitter } from "@ismael1361/utils";
+import AnimationClock from "./AnimationClock";
+import { AnimationStatus } from "./Types";
+
+/**
+ * Quantidade de amostras de valores mantidas por animação (cerca de 4 segundos a 60 quadros por segundo).
+ */
+const MAX_SAMPLES = 240;
+
+export interface InspectorBranch {
+	id: number;
+	/** Nome do utilitário de `this` que criou o ramo (`"parallel"`, `"chain"`, `"timing"`, ...). */
+	label: string;
+	/** `id` do ramo que o criou, ou `null` na raiz do gerador. */
+	parent: number | null;
+	depth: number;
+	/** Posição da animação, em milissegundos, em que o ramo começou. */
+	start: number;
+}
+
+export interface InspectorSample {
+	/** Posição da animação, em milissegundos. */
+	time: number;
+	values: Record<string, unknown>;
+}
+
+/**
+ * Uma instância de `useAnimation` registrada no inspetor: seus ramos ativos, as amostras recentes dos valores do estado
+ * e os comandos de reprodução.
+ */
+export class InspectedAnimation {
+	samples: InspectorSample[] = [];
+
+	/**
+	 * Ramo cujo gerador está sendo executado no momento, usado como pai dos ramos criados por ele.
+	 */
+	current: InspectorBranch | null = null;
+
+	private branches = new Map<number, InspectorBranch>();
+	private nextId = 0;
+
+	constructor(
+		readonly name: string,
+		private clock: AnimationClock,
+		private state: Record<string, SharedValue<any>>,
+	) {}
+
+	get status(): AnimationStatus {
+		return this.clock.status;
+	}
+
+	get time(): number {
+		return this.clock.time;
+	}
+
+	get duration(): number | null {
+		return this.clock.duration;
+	}
+
+	get playbackRate(): number {
+		return this.clock.playbackRate;
+	}
+
+	/**
+	 * Os ramos em execução, na ordem em que começaram.
+	 */
+	get active(): InspectorBranch[] {
+		return Array.from(this.branches.values());
+	}
+
+	open(label: string): InspectorBranch {
+		const branch: InspectorBranch = {
+			id: this.nextId++,
+			label,
+			parent: this.current?.id ?? null,
+			depth: this.current ? this.current.depth + 1 : 0,
+			start: this.clock.time,
+		};
+
+		this.branches.set(branch.id, branch);
+		return branch;
+	}
+
+	close(branch: InspectorBranch) {
+		this.branches.delete(branch.id);
+	}
+
+	sample() {
+		const values: Record<string, unknown> = {};
+
+		for (const key in this.state) {
+			values[key] = this.state[key].value;
+		}
+
+		this.samples.push({ time: this.clock.time, values });
+		if (this.samples.length > MAX_SAMPLES) this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+	}
+
+	clear() {
+		this.samples = [];
+	}
+
+	pause() {
+		this.clock.pause();
+	}
+
+	resume() {
+		this.clock.resume();
+	}
+
+	seek(ms: number) {
+		this.clock.seek(ms);
+	}
+
+	/**
+	 * Altera a velocidade da reprodução. Padrão `0.25` (câmera lenta); `1` volta à velocidade normal.
+	 */
+	slowMotion(rate: number = 0.25) {
+		this.clock.playbackRate = rate;
+	}
+}
+
+declare global {
+	interface Window {
+		/** O inspetor de animações, enquanto ativado (veja `AnimationInspector.enable`). */
+		__ANIMATION_INSPECTOR__?: AnimationInspector;
+	}
+}
+
+/**
+ * Registro das instâncias de `useAnimation` para inspeção durante o desenvolvimento.
+ *
+ * Desativado por padrão: enquanto `enabled` é `false`, nada é registrado e os utilitários de `this` não são rastreados.
+ * Ao ser ativado, o inspetor também fica disponível em `window.__ANIMATION_INSPECTOR__`, para comandos pelo console do navegador.
+ * Em produção (`process.env.NODE_ENV === "production"`), `enable` não tem efeito e o bundler da aplicação remove o rastreamento.
+ */
+export class AnimationInspector {
+	enabled: boolean = false;
+
+	private entries = new Map<AnimationClock, InspectedAnimation>();
+	private events = new EventEmitter<{ change: [] }>();
+
+	/**
+	 * Ativa o inspetor. Deve ser chamado antes da montagem dos componentes inspecionados.
+	 */
+	enable() {
+		if (process.env.NODE_ENV === "production") return;
+		this.enabled = true;
+		if (typeof window !== "undefined") window.__ANIMATION_INSPECTOR__ = this;
+	}
+
+	disable() {
+		this.enabled = false;
+		if (typeof window !== "undefined") delete window.__ANIMATION_INSPECTOR__;
+	}
+
+	get animations(): InspectedAnimation[] {
+		return Array.from(this.entries.values());
+	}
+
+	/**
+	 * Registra o relógio de uma animação com um nome, repetido com um sufixo (`"card #2"`) se já estiver em uso.
+	 * @returns Uma função que remove o registro.
+	 */
+	register(clock: AnimationClock, state: Record<string, SharedValue<any>>, name: string = "animation"): () => void {
+		let unique = name;
+		for (let index = 2; this.find(unique); index++) unique = `${name} #${index}`;
+
+		const entry = new InspectedAnimation(unique, clock, state);
+		this.entries.set(clock, entry);
+
+		const listeners = [
+			clock.onChange(() => {
+				entry.sample();
+				this.emit();
+			}),
+			clock.on("start", () => entry.clear()),
+		];
+
+		this.emit();
+
+		return () => {
+			listeners.forEach((listener) => listener.stop());
+			this.entries.delete(clock);
+			this.emit();
+		};
+	}
+
+	of(clock: AnimationClock | null): InspectedAnimation | undefined {
+		return clock ? this.entries.get(clock) : undefined;
+	}
+
+	find(name: string): InspectedAnimation | undefined {
+		return this.animations.find((entry) => entry.name === name);
+	}
+
+	pause(name: string) {
+		this.find(name)?.pause();
+	}
+
+	resume(name: string) {
+		this.find(name)?.resume();
+	}
+
+	seek(name: string, ms: number) {
+		this.find(name)?.seek(ms);
+	}
+
+	slowMotion(name: string, rate?: number) {
+		this.find(name)?.slowMotion(rate);
+	}
+
+	onChange(callback: () => void) {
+		return this.events.on("change", callback);
+	}
+
+	private emit() {
+		this.events.emit("change");
+	}
+}
+
+export const animationInspector = new AnimationInspector();
+
+/**
+ * Executa o gerador criado por `create` como um ramo da animação inspecionada pelo relógio atual, marcando-o como ativo
+ * enquanto não termina.
+ */
+function* inspect<T>(label: string, create: () => InputGenerator<T>): InputGenerator<T> {
+	const entry = animationInspector.of(AnimationClock.current);
+	const generator = create();
+
+	if (!entry) {
+		return yield* generator;
+	}
+
+	const branch = entry.open(label);
+	let input: unknown;
+
+	try {
+		while (true) {
+			const previous = entry.current;
+			entry.current = branch;
+
+			let result: IteratorResult<unknown, T>;
+
+			try {
+				result = generator.next(input);
+			} finally {
+				entry.current = previous;
+			}
+
+			if (result.done) return result.value;
+			input = yield result.value;
+		}
+	} finally {
+		generator.return(undefined as T);
+		entry.close(branch);
+	}
+}
+
+/**
+ * Envolve um utilitário de `this` para que, com o inspetor ativo, os geradores criados por ele apareçam como ramos.
+ */
+export const inspected = <F extends (...args: any[]) => InputGenerator<any>>(label: string, fn: F): F => {
+	if (process.env.NODE_ENV === "production") return fn;
+	return ((...args: any[]) => (animationInspector.enabled ? inspect(label, () => fn(...args)) : fn(...args))) as F;
+};
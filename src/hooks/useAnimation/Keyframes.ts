@@ -0,0 +1,111 @@
+import { Easing, InputGenerator, SharedValue } from "@ismael1361/animation";
+import { setValue, timing } from "./Timing";
+import { KeyframeDefinition, KeyframeEasing, KeyframesCallback, KeyframesConfig, KeyframeValue } from "./Types";
+import { mixValues } from "./Utils";
+
+interface KeyframeStop {
+	offset: number;
+	value: KeyframeValue;
+	easing?: KeyframeEasing;
+}
+
+/**
+ * Completa os `offset` ausentes como na Web Animations API: o primeiro quadro fica em `0`, o último em `1`
+ * e os demais são distribuídos igualmente entre os vizinhos definidos.
+ */
+const resolveOffsets = (frames: KeyframeDefinition[]): number[] => {
+	const offsets = frames.map((frame) => frame.offset);
+
+	if (offsets.length > 0) {
+		offsets[0] ??= 0;
+		offsets[offsets.length - 1] ??= offsets.length > 1 ? 1 : 0;
+	}
+
+	let previous = 0;
+
+	for (let i = 1; i < offsets.length; i++) {
+		if (offsets[i] === undefined) continue;
+
+		const start = offsets[previous] as number;
+		const end = offsets[i] as number;
+
+		for (let j = previous + 1; j < i; j++) {
+			offsets[j] = start + ((end - start) * (j - previous)) / (i - previous);
+		}
+
+		previous = i;
+	}
+
+	return offsets as number[];
+};
+
+const toStops = (frames: KeyframeDefinition[]): Record<string, KeyframeStop[]> => {
+	const offsets = resolveOffsets(frames);
+	const stops: Record<string, KeyframeStop[]> = {};
+
+	frames.forEach(({ offset, easing, ...properties }, index) => {
+		for (const property in properties) {
+			const value = properties[property] as KeyframeValue | undefined;
+			if (value === undefined) continue;
+			(stops[property] ??= []).push({ offset: offsets[index], value, easing });
+		}
+	});
+
+	return stops;
+};
+
+/**
+ * Calcula o valor de cada propriedade no progresso `progress` (de `0` a `1`) da animação.
+ */
+const sampleKeyframes = (stops: Record<string, KeyframeStop[]>, progress: number, easing: KeyframeEasing): Record<string, KeyframeValue> => {
+	const values: Record<string, KeyframeValue> = {};
+
+	for (const property in stops) {
+		const list = stops[property];
+		let index = 0;
+
+		while (index < list.length - 1 && list[index + 1].offset <= progress) {
+			index++;
+		}
+
+		const from = list[index];
+		const to = list[index + 1];
+
+		if (!to || progress <= from.offset) {
+			values[property] = from.value;
+			continue;
+		}
+
+		const length = to.offset - from.offset;
+		const local = length > 0 ? (progress - from.offset) / length : 1;
+		values[property] = mixValues(from.value, to.value, (from.easing ?? easing)(local));
+	}
+
+	return values;
+};
+
+/**
+ * Anima várias propriedades através de uma lista de quadros-chave ao longo de uma única duração.
+ * As propriedades são aplicadas a um objeto de `SharedValue` (como o `state` de `useAnimation`) ou repassadas a uma função de retorno de chamada.
+ */
+export function* keyframes(target: Record<string, SharedValue<any>> | KeyframesCallback, frames: KeyframeDefinition[], config: KeyframesConfig = {}): InputGenerator {
+	const { duration = 300, easing = Easing.linear, delay = 0 } = config;
+	const stops = toStops(frames);
+
+	yield* timing(
+		(progress: number) => {
+			const values = sampleKeyframes(stops, progress, easing);
+
+			if (typeof target === "function") {
+				return target(values);
+			}
+
+			for (const property in values) {
+				if (target[property] instanceof SharedValue) {
+					setValue(target[property], values[property]);
+				}
+			}
+		},
+		{ from: 0, to: 1, duration, delay, easing: Easing.linear },
+	);
+}
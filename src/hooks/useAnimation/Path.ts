@@ -0,0 +1,296 @@
+/**
+ * Segmento cúbico de um caminho: pontos de controle e ponto final, `[c1x, c1y, c2x, c2y, x, y]`.
+ */
+type CubicSegment = [number, number, number, number, number, number];
+
+interface Subpath {
+	start: [number, number];
+	segments: CubicSegment[];
+	closed: boolean;
+}
+
+const COMMAND = /([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g;
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+/**
+ * Quantidade de parâmetros de cada comando do SVG.
+ */
+const PARAMS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+const line = (x0: number, y0: number, x: number, y: number): CubicSegment => {
+	return [x0 + (x - x0) / 3, y0 + (y - y0) / 3, x0 + ((x - x0) * 2) / 3, y0 + ((y - y0) * 2) / 3, x, y];
+};
+
+const quadratic = (x0: number, y0: number, qx: number, qy: number, x: number, y: number): CubicSegment => {
+	return [x0 + ((qx - x0) * 2) / 3, y0 + ((qy - y0) * 2) / 3, x + ((qx - x) * 2) / 3, y + ((qy - y) * 2) / 3, x, y];
+};
+
+/**
+ * Converte um arco elíptico (comando `A`) em segmentos cúbicos, seguindo a parametrização do apêndice B.2.4 da especificação do SVG.
+ */
+const arc = (x0: number, y0: number, rx: number, ry: number, angle: number, large: number, sweep: number, x: number, y: number): CubicSegment[] => {
+	if (rx === 0 || ry === 0 || (x0 === x && y0 === y)) {
+		return [line(x0, y0, x, y)];
+	}
+
+	const phi = (angle * Math.PI) / 180;
+	const cos = Math.cos(phi);
+	const sin = Math.sin(phi);
+	const dx = (x0 - x) / 2;
+	const dy = (y0 - y) / 2;
+	const x1 = cos * dx + sin * dy;
+	const y1 = -sin * dx + cos * dy;
+
+	rx = Math.abs(rx);
+	ry = Math.abs(ry);
+
+	const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+
+	if (lambda > 1) {
+		rx *= Math.sqrt(lambda);
+		ry *= Math.sqrt(lambda);
+	}
+
+	const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+	const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+	const factor = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+	const cx1 = (factor * rx * y1) / ry;
+	const cy1 = (-factor * ry * x1) / rx;
+	const cx = cos * cx1 - sin * cy1 + (x0 + x) / 2;
+	const cy = sin * cx1 + cos * cy1 + (y0 + y) / 2;
+
+	const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => {
+		const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+		const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+		return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+	};
+
+	const theta = vectorAngle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+	let delta = vectorAngle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+
+	if (!sweep && delta > 0) delta -= Math.PI * 2;
+	if (sweep && delta < 0) delta += Math.PI * 2;
+
+	const count = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+	const step = delta / count;
+	const k = (4 / 3) * Math.tan(step / 4);
+	const segments: CubicSegment[] = [];
+
+	const map = (ex: number, ey: number): [number, number] => [cx + cos * rx * ex - sin * ry * ey, cy + sin * rx * ex + cos * ry * ey];
+
+	for (let i = 0; i < count; i++) {
+		const a1 = theta + i * step;
+		const a2 = a1 + step;
+		const e1 = [Math.cos(a1), Math.sin(a1)];
+		const e2 = [Math.cos(a2), Math.sin(a2)];
+
+		const [c1x, c1y] = map(e1[0] - k * e1[1], e1[1] + k * e1[0]);
+		const [c2x, c2y] = map(e2[0] + k * e2[1], e2[1] - k * e2[0]);
+		const [ex, ey] = i === count - 1 ? [x, y] : map(e2[0], e2[1]);
+
+		segments.push([c1x, c1y, c2x, c2y, ex, ey]);
+	}
+
+	return segments;
+};
+
+/**
+ * Interpreta uma string `d` de um `<path>` em subcaminhos formados apenas por segmentos cúbicos em coordenadas absolutas.
+ */
+export const parsePath = (d: string): Subpath[] => {
+	const subpaths: Subpath[] = [];
+	let current: Subpath | null = null;
+	let x = 0;
+	let y = 0;
+	let control: [number, number] | null = null;
+	let previous = "";
+
+	const moveTo = (px: number, py: number) => {
+		current = { start: [px, py], segments: [], closed: false };
+		subpaths.push(current);
+		x = px;
+		y = py;
+	};
+
+	const push = (segment: CubicSegment) => {
+		if (!current) moveTo(x, y);
+		(current as Subpath).segments.push(segment);
+		x = segment[4];
+		y = segment[5];
+	};
+
+	let match: RegExpExecArray | null;
+	COMMAND.lastIndex = 0;
+
+	while ((match = COMMAND.exec(d))) {
+		const [, letter, args] = match;
+		const type = letter.toLowerCase();
+		const relative = letter !== letter.toUpperCase();
+		const values = (args.match(NUMBER) ?? []).map(Number);
+		const size = PARAMS[type];
+		let index = 0;
+
+		do {
+			const p = values.slice(index, index + size);
+			if (p.length < size) break;
+			index += size;
+
+			const ox = relative ? x : 0;
+			const oy = relative ? y : 0;
+			let nextControl: [number, number] | null = null;
+
+			switch (type) {
+				case "m":
+					if (index === size) moveTo(p[0] + ox, p[1] + oy);
+					else push(line(x, y, p[0] + ox, p[1] + oy));
+					break;
+				case "l":
+					push(line(x, y, p[0] + ox, p[1] + oy));
+					break;
+				case "h":
+					push(line(x, y, p[0] + ox, y));
+					break;
+				case "v":
+					push(line(x, y, x, p[0] + oy));
+					break;
+				case "c":
+					push([p[0] + ox, p[1] + oy, p[2] + ox, p[3] + oy, p[4] + ox, p[5] + oy]);
+					nextControl = [p[2] + ox, p[3] + oy];
+					break;
+				case "s": {
+					const [c1x, c1y]: [number, number] = control && /[cs]/.test(previous) ? [2 * x - control[0], 2 * y - control[1]] : [x, y];
+					push([c1x, c1y, p[0] + ox, p[1] + oy, p[2] + ox, p[3] + oy]);
+					nextControl = [p[0] + ox, p[1] + oy];
+					break;
+				}
+				case "q":
+					push(quadratic(x, y, p[0] + ox, p[1] + oy, p[2] + ox, p[3] + oy));
+					nextControl = [p[0] + ox, p[1] + oy];
+					break;
+				case "t": {
+					const [qx, qy]: [number, number] = control && /[qt]/.test(previous) ? [2 * x - control[0], 2 * y - control[1]] : [x, y];
+					push(quadratic(x, y, qx, qy, p[0] + ox, p[1] + oy));
+					nextControl = [qx, qy];
+					break;
+				}
+				case "a":
+					arc(x, y, p[0], p[1], p[2], p[3], p[4], p[5] + ox, p[6] + oy).forEach(push);
+					break;
+				case "z":
+					if (current) {
+						const subpath: Subpath = current;
+						if (x !== subpath.start[0] || y !== subpath.start[1]) push(line(x, y, subpath.start[0], subpath.start[1]));
+						subpath.closed = true;
+						x = subpath.start[0];
+						y = subpath.start[1];
+						current = null;
+					}
+					break;
+			}
+
+			control = nextControl;
+			previous = type;
+		} while (index < values.length && size > 0);
+	}
+
+	return subpaths;
+};
+
+/**
+ * Divide um segmento cúbico ao meio (algoritmo de De Casteljau).
+ */
+const split = (x0: number, y0: number, [c1x, c1y, c2x, c2y, x, y]: CubicSegment): [CubicSegment, CubicSegment] => {
+	const mid = (a: number, b: number) => (a + b) / 2;
+	const [ax, ay] = [mid(x0, c1x), mid(y0, c1y)];
+	const [bx, by] = [mid(c1x, c2x), mid(c1y, c2y)];
+	const [cx, cy] = [mid(c2x, x), mid(c2y, y)];
+	const [dx, dy] = [mid(ax, bx), mid(ay, by)];
+	const [ex, ey] = [mid(bx, cx), mid(by, cy)];
+	const [fx, fy] = [mid(dx, ex), mid(dy, ey)];
+
+	return [
+		[ax, ay, dx, dy, fx, fy],
+		[ex, ey, cx, cy, x, y],
+	];
+};
+
+/**
+ * Aumenta a quantidade de segmentos de um subcaminho até `count`, dividindo sempre o segmento mais longo.
+ */
+const subdivide = (subpath: Subpath, count: number): Subpath => {
+	const segments = subpath.segments.slice();
+
+	if (segments.length === 0) {
+		const [x, y] = subpath.start;
+		segments.push(line(x, y, x, y));
+	}
+
+	while (segments.length < count) {
+		let longest = 0;
+		let length = -1;
+
+		segments.forEach((segment, index) => {
+			const [x0, y0] = index === 0 ? subpath.start : [segments[index - 1][4], segments[index - 1][5]];
+			const distance = Math.hypot(segment[4] - x0, segment[5] - y0);
+
+			if (distance > length) {
+				length = distance;
+				longest = index;
+			}
+		});
+
+		const [x0, y0] = longest === 0 ? subpath.start : [segments[longest - 1][4], segments[longest - 1][5]];
+		segments.splice(longest, 1, ...split(x0, y0, segments[longest]));
+	}
+
+	return { ...subpath, segments };
+};
+
+/**
+ * Normaliza dois caminhos para listas de comandos compatíveis: a mesma quantidade de subcaminhos, cada um com a mesma
+ * quantidade de segmentos cúbicos. Subcaminhos ausentes em um dos lados surgem (ou desaparecem) a partir de um ponto.
+ */
+export const normalizePaths = (from: string, to: string): [Subpath[], Subpath[]] => {
+	const a = parsePath(from);
+	const b = parsePath(to);
+	const count = Math.max(a.length, b.length);
+
+	const pad = (list: Subpath[], other: Subpath[]) => {
+		while (list.length < count) {
+			const reference = list[list.length - 1];
+			const [x, y] = reference ? [reference.start[0], reference.start[1]] : other[list.length].start;
+			list.push({ start: [x, y], segments: [], closed: other[list.length].closed });
+		}
+	};
+
+	pad(a, b);
+	pad(b, a);
+
+	for (let i = 0; i < count; i++) {
+		const segments = Math.max(a[i].segments.length, b[i].segments.length, 1);
+		a[i] = subdivide(a[i], segments);
+		b[i] = subdivide(b[i], segments);
+	}
+
+	return [a, b];
+};
+
+const format = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * Interpola dois caminhos já normalizados por `normalizePaths` e retorna a string `d` resultante.
+ */
+export const interpolatePaths = (from: Subpath[], to: Subpath[], t: number): string => {
+	const mix = (a: number, b: number) => format(a + (b - a) * t);
+
+	return from
+		.map((subpath, i) => {
+			const target = to[i];
+			const start = `M${mix(subpath.start[0], target.start[0])} ${mix(subpath.start[1], target.start[1])}`;
+			const curves = subpath.segments.map((segment, j) => "C" + segment.map((value, k) => mix(value, target.segments[j][k])).join(" "));
+			const closed = t >= 1 ? target.closed : t <= 0 ? subpath.closed : subpath.closed && target.closed;
+
+			return start + curves.join("") + (closed ? "Z" : "");
+		})
+		.join("");
+};
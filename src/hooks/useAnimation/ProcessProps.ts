@@ -0,0 +1,111 @@
+import { InputGenerator, SharedValue, SharedValues, AnimationState } from "@ismael1361/animation";
+import AnimationScope from "./AnimationScope";
+import DOMAnimationHelpers from "./DOMAnimationHelpers";
+import { createDOMAnimationGroup, DOMAnimationGroup } from "./DOMAnimationGroup";
+import { DOMAnimationGroupOptions, DOMAnimationOptions, DOMElement, DOMTargets, KeyframeDefinition, KeyframesCallback, KeyframesConfig } from "./Types";
+
+const isDOMTarget = (target: unknown): target is DOMElement | React.RefObject<DOMElement> => {
+	return target instanceof Element || (typeof target === "object" && target !== null && "current" in target && (target.current === null || target.current instanceof Element));
+};
+
+const ProcessProps = {
+	...AnimationScope,
+
+	/**
+	 * Cria um conjunto de helpers de animação para um elemento DOM específico.
+	 * Isso permite encadear animações diretamente em um elemento ou ref do React.
+	 *
+	 * @param {E | React.RefObject<E>} element O elemento DOM a ser animado, ou uma ref do React que aponta para ele.
+	 * @param {DOMAnimationOptions} [options] Opções dos helpers, como `backend: "waapi"` para executar `opacity`, `transform` e cor pela Web Animations API.
+	 * @returns {DOMAnimationHelpers<E>} Um objeto com métodos de animação específicos para o DOM (`opacity`, `width`, `height`, `margin`, etc...).
+	 * @example
+	 * ```tsx
+	 * const myDiv = useRef(null);
+	 *
+	 * useAnimation(function*() {
+	 *   // Anima a opacidade do div de 0 para 1
+	 *   yield* this.dom(myDiv).opacity({ from: 0, to: 1, duration: 1000 });
+	 *
+	 *   // Em paralelo, anima a largura
+	 *   yield* this.dom(myDiv).width({ from: 100, to: 200, unit: 'px', duration: 1000 });
+	 * });
+	 *
+	 * return <div ref={myDiv} style={{ width: 100, height: 100, backgroundColor: 'blue' }} />;
+	 * ```
+	 *
+	 * @example
+	 * ```tsx
+	 * useAnimation(function*() {
+	 *   // Executada pelo navegador com element.animate(), quando disponível
+	 *   yield* this.dom(myDiv, { backend: 'waapi' }).translateX({ from: 0, to: 200, duration: 500 });
+	 * });
+	 * ```
+	 */
+	dom<E extends DOMElement>(element: E | React.RefObject<E>, options?: DOMAnimationOptions): DOMAnimationHelpers<E> {
+		return new DOMAnimationHelpers(element, options);
+	},
+
+	/**
+	 * Cria um conjunto de helpers de animação que executa cada chamada (`opacity`, `translate`, `style`, ...) sobre todos
+	 * os elementos de uma lista, em paralelo e, opcionalmente, com um atraso escalonado entre eles.
+	 * Qualquer argumento de um helper pode ser substituído por uma função `(index, element) => valor`, calculada por elemento.
+	 *
+	 * @param {DOMTargets<E>} targets Os elementos ou refs a serem animados (um array, um `NodeList` ou uma ref que aponta para um deles).
+	 * @param {DOMAnimationGroupOptions} [options] `stagger` (o atraso entre elementos vizinhos, em milissegundos), `from`
+	 * (`"start"`, `"center"`, `"end"` ou um índice: o elemento que começa primeiro) e as opções de `dom`, como `backend`.
+	 * @returns {DOMAnimationGroup<E>} Os helpers de `dom`, que terminam quando a animação de todos os elementos terminar.
+	 * @example
+	 * ```tsx
+	 * const list = useRef<HTMLUListElement>(null);
+	 *
+	 * useAnimation(function*() {
+	 *   const items = list.current?.querySelectorAll('li') ?? [];
+	 *
+	 *   // Os itens aparecem um após o outro, a partir do centro
+	 *   yield* this.domAll(items, { stagger: 60, from: 'center' }).opacity({ from: 0, to: 1, duration: 300 });
+	 *
+	 *   // Cada item desliza de uma distância diferente
+	 *   yield* this.domAll(items, { stagger: 60 }).translateY((index) => ({ from: 20 + index * 10, to: 0, duration: 300 }));
+	 * });
+	 * ```
+	 */
+	domAll<E extends DOMElement>(targets: DOMTargets<E>, options?: DOMAnimationGroupOptions): DOMAnimationGroup<E> {
+		return createDOMAnimationGroup(targets, options);
+	},
+
+	/**
+	 * Anima várias propriedades através de uma lista de quadros-chave ao longo de uma única duração.
+	 * Além de um objeto de `SharedValue` ou de uma função, aceita um elemento DOM ou ref, cujas propriedades de estilo
+	 * são animadas por `this.dom(element).keyframes`.
+	 *
+	 * @param {Record<string, SharedValue<any>> | KeyframesCallback | E | React.RefObject<E>} target O alvo da animação.
+	 * @param {KeyframeDefinition[]} frames A lista de quadros-chave.
+	 * @param {KeyframesConfig} [config] `duration`, `easing` e `delay`.
+	 * @returns {InputGenerator} Um gerador que, quando executado, realiza a animação.
+	 * @example
+	 * ```tsx
+	 * const card = useRef(null);
+	 *
+	 * useAnimation(function*() {
+	 *   yield* this.keyframes(card, [
+	 *     { offset: 0, opacity: 0, scale: 0.9 },
+	 *     { offset: 0.4, opacity: 1, easing: this.Easing.out(this.Easing.cubic) },
+	 *     { offset: 1, scale: 1 },
+	 *   ], { duration: 600 });
+	 * });
+	 * ```
+	 */
+	keyframes<E extends DOMElement>(target: Record<string, SharedValue<any>> | KeyframesCallback | E | React.RefObject<E>, frames: KeyframeDefinition[], config?: KeyframesConfig): InputGenerator {
+		if (isDOMTarget(target)) {
+			return new DOMAnimationHelpers(target).keyframes(frames, config);
+		}
+
+		return AnimationScope.keyframes(target as Record<string, SharedValue<any>> | KeyframesCallback, frames, config);
+	},
+} as const;
+
+export type AnimationFnProps = typeof ProcessProps;
+
+export type AnimationFn<S extends AnimationState> = (this: AnimationFnProps, state: SharedValues<S>["current"]) => InputGenerator;
+
+export default ProcessProps;
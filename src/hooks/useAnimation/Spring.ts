@@ -0,0 +1,116 @@
+import { InputGenerator, SharedValue } from "@ismael1361/animation";
+import AnimationClock from "./AnimationClock";
+import { isMotionReduced, setValue, timeSincePreviousFrame } from "./Timing";
+import { SpringCallback, SpringConfig } from "./Types";
+
+interface SpringState {
+	value: number;
+	velocity: number;
+}
+
+/**
+ * Molas em execução por alvo. Uma nova mola sobre o mesmo alvo substitui a anterior e herda sua posição e velocidade.
+ */
+const running = new WeakMap<object, SpringState>();
+
+/**
+ * Estado de molas interrompidas com a animação (por `stop` ou por uma mudança em `deps`), herdado pela próxima mola sobre
+ * o mesmo alvo. Reexecuções do gerador por uma busca não o alteram, e a mola que o herda o devolve quando o gerador volta
+ * ao início (veja `AnimationClock.preserve`), então cada reexecução parte do mesmo estado.
+ */
+const carried = new WeakMap<object, SpringState>();
+
+const MAX_FRAME_TIME = 64;
+const STEP_TIME = 1000 / 240;
+
+/**
+ * Anima um `SharedValue<number>` ou executa uma função de retorno de chamada usando física de mola.
+ * A animação termina quando a mola entra em repouso, e não após uma duração fixa.
+ *
+ * @param target `SharedValue<number>` ou callback que recebe o valor atual e retorna `true` para cancelar a animação.
+ * @param config Parâmetros físicos da mola (`to`, `stiffness`, `damping`, `mass`, `velocity`, `restThreshold`).
+ * @param key Identidade usada para detectar interrupções. Por padrão é o próprio `target`.
+ *
+ * Uma mola interrompida, por outra sobre o mesmo alvo ou pela reinicialização da animação, passa a sua posição e
+ * velocidade para a seguinte; `from` e `velocity`, se definidos, têm precedência.
+ */
+export function* spring(target: SharedValue<number> | SpringCallback, config: SpringConfig, key: object = target): InputGenerator {
+	const { to, stiffness = 100, damping = 10, mass = 1, restThreshold = 0.01 } = config;
+	const clock = AnimationClock.current;
+	const snapshot = carried.get(key);
+	const interrupted = running.get(key) ?? snapshot;
+
+	if (snapshot) {
+		carried.delete(key);
+		clock?.preserve(key, "spring", () => () => carried.set(key, snapshot));
+	}
+
+	if (isMotionReduced()) {
+		running.delete(key);
+
+		if (target instanceof SharedValue) setValue(target, to);
+		else target(to);
+
+		return;
+	}
+
+	const state: SpringState = {
+		value: config.from ?? interrupted?.value ?? (target instanceof SharedValue ? target.value : 0),
+		velocity: config.velocity ?? interrupted?.velocity ?? 0,
+	};
+
+	running.set(key, state);
+
+	const apply = (value: number): boolean => {
+		if (target instanceof SharedValue) {
+			setValue(target, value);
+			return false;
+		}
+		return target(value) === true;
+	};
+
+	let waiting = false;
+
+	try {
+		if (apply(state.value)) {
+			return;
+		}
+
+		while (true) {
+			waiting = true;
+			const delta: number = yield* timeSincePreviousFrame();
+			waiting = false;
+
+			if (running.get(key) !== state) {
+				return;
+			}
+
+			let remaining = Math.min(Math.max(delta, 0), MAX_FRAME_TIME);
+
+			while (remaining > 0) {
+				const dt = Math.min(remaining, STEP_TIME) / 1000;
+				const force = -stiffness * (state.value - to) - damping * state.velocity;
+
+				state.velocity += (force / mass) * dt;
+				state.value += state.velocity * dt;
+				remaining -= STEP_TIME;
+			}
+
+			const resting = Math.abs(state.velocity) < restThreshold && Math.abs(state.value - to) < restThreshold;
+
+			if (resting) {
+				state.value = to;
+				state.velocity = 0;
+			}
+
+			if (apply(state.value) || resting) {
+				return;
+			}
+		}
+	} finally {
+		if (running.get(key) === state) {
+			running.delete(key);
+			if (waiting && !clock?.replaying) carried.set(key, { ...state });
+		}
+	}
+}
@@ -0,0 +1,153 @@
+import { InputGenerator, all, any } from "@ismael1361/animation";
+import AnimationClock from "./AnimationClock";
+import { EPSILON, ahead, run, timeSincePreviousFrame } from "./Timing";
+import { AnimationInput, TimelinePosition } from "./Types";
+
+type TimelineAnchor = { type: "time"; time: number } | { type: "start" | "end"; index: number } | { type: "timeline"; index: number };
+
+interface TimelineEntry {
+	animation?: AnimationInput;
+	anchor: TimelineAnchor;
+	offset: number;
+}
+
+const POSITION = /^(.*?)(?:([+-])=(\d*\.?\d+))?$/;
+
+/**
+ * Construtor de linhas do tempo no estilo GSAP: animações são posicionadas em tempos absolutos, em rótulos nomeados
+ * ou relativas às animações anteriores, e executadas juntas por `play()`.
+ *
+ * Como a duração de um gerador só é conhecida ao final da sua execução, posições relativas ao fim de uma animação
+ * (`">"`, `"+=200"` ou a posição padrão) são resolvidas durante a reprodução. Um deslocamento que aponte para antes
+ * do momento em que a âncora é resolvida (ex.: `">-=200"`) inicia imediatamente.
+ */
+export default class Timeline {
+	private entries: TimelineEntry[] = [];
+	private labels = new Map<string, number>();
+
+	/**
+	 * Adiciona uma animação à linha do tempo.
+	 *
+	 * @param animation O gerador (ou função que o cria) a ser executado.
+	 * @param position Onde a animação começa:
+	 * - um número: tempo absoluto em milissegundos;
+	 * - `"intro"`, `"intro+=200"`, `"intro-=100"`: relativo a um rótulo;
+	 * - `"<"`, `"<+=200"`: relativo ao início da entrada anterior;
+	 * - `">"`, `">+=200"`: relativo ao fim da entrada anterior;
+	 * - `"+=200"`, `"-=100"` ou omitido: relativo ao fim de toda a linha do tempo até aqui.
+	 *
+	 * Um rótulo ainda não definido gera um aviso no console e é tratado como o fim da linha do tempo até aqui.
+	 */
+	add(animation: AnimationInput, position?: TimelinePosition): this {
+		this.entries.push({ animation, ...this.parse(position) });
+		return this;
+	}
+
+	/**
+	 * Define um rótulo nomeado que pode ser usado como posição por `add` e `label`.
+	 *
+	 * @param name O nome do rótulo.
+	 * @param position A posição do rótulo, com a mesma sintaxe de `add`. Se omitida, o fim da linha do tempo até aqui.
+	 */
+	label(name: string, position?: TimelinePosition): this {
+		this.labels.set(name, this.entries.length);
+		this.entries.push(this.parse(position));
+		return this;
+	}
+
+	/**
+	 * Executa a linha do tempo. Termina quando todas as animações adicionadas tiverem sido concluídas.
+	 */
+	*play(): InputGenerator {
+		const starts: number[] = [];
+		const ends: number[] = [];
+		let now = 0;
+
+		const resolve = ({ anchor, offset }: TimelineEntry): number | null => {
+			let time: number | undefined = 0;
+
+			switch (anchor.type) {
+				case "time":
+					time = anchor.time;
+					break;
+				case "start":
+					time = starts[anchor.index];
+					break;
+				case "end":
+					time = ends[anchor.index];
+					break;
+				case "timeline":
+					for (let i = 0; i < anchor.index; i++) {
+						if (ends[i] === undefined) return null;
+						time = Math.max(time, ends[i]);
+					}
+					break;
+			}
+
+			return time === undefined ? null : Math.max(0, time + offset);
+		};
+
+		function* ticker(): InputGenerator {
+			while (true) {
+				now += yield* timeSincePreviousFrame();
+			}
+		}
+
+		const tracks = this.entries.map(
+			(entry, index) =>
+				function* (): InputGenerator {
+					let start = resolve(entry);
+
+					while (start === null || start - now > EPSILON) {
+						yield* timeSincePreviousFrame();
+						if (start === null) start = resolve(entry);
+					}
+
+					starts[index] = start;
+
+					const generator = run(entry.animation);
+					// O quadro em que a entrada começa pode passar do seu início; a sobra vai para o primeiro passo da animação.
+					const overshoot = now - start;
+
+					if (generator) {
+						yield* overshoot > EPSILON ? ahead(overshoot, generator) : generator;
+					}
+
+					ends[index] = generator ? Math.max(start, now) : start;
+				},
+		);
+
+		yield* any(ticker, () => all(...tracks));
+	}
+
+	private parse(position?: TimelinePosition): Omit<TimelineEntry, "animation"> {
+		const index = this.entries.length;
+
+		if (typeof position === "number") {
+			return { anchor: { type: "time", time: position }, offset: 0 };
+		}
+
+		const [, base = "", sign, amount] = (position ?? "").trim().match(POSITION) ?? [];
+		const offset = sign ? (sign === "-" ? -1 : 1) * parseFloat(amount) : 0;
+
+		if (base === "<" && index > 0) {
+			return { anchor: { type: "start", index: index - 1 }, offset };
+		}
+
+		if (base === ">" && index > 0) {
+			return { anchor: { type: "end", index: index - 1 }, offset };
+		}
+
+		const label = this.labels.get(base);
+
+		if (label !== undefined) {
+			return { anchor: { type: "start", index: label }, offset };
+		}
+
+		if (base !== "" && base !== "<" && base !== ">" && !AnimationClock.current?.replaying) {
+			console.warn(`Timeline: o rótulo "${base}" não foi definido; a entrada será posicionada no fim da linha do tempo.`);
+		}
+
+		return { anchor: { type: "timeline", index }, offset };
+	}
+}
@@ -0,0 +1,196 @@
+import { Easing, InputGenerator, SharedValue, TimingConfig, chain, loop as repeat, parallel, timeSincePreviousFrame as nextFrame } from "@ismael1361/animation";
+import AnimationClock from "./AnimationClock";
+import { AnimationInput, TimingCallback } from "./Types";
+
+/**
+ * Tolerância para erros de ponto flutuante ao somar os deltas dos quadros.
+ */
+export const EPSILON = 1e-6;
+
+/**
+ * Curva usada por `timing` quando nenhum `easing` é informado.
+ */
+export const DEFAULT_EASING = Easing.inOut(Easing.quad);
+
+/**
+ * Atribui um valor a um `SharedValue`, registrando no relógio da animação (veja `AnimationClock.preserve`) como restaurar o
+ * anterior quando a animação for reexecutada desde o início. Assim, `SharedValue`s de fora do estado da animação também
+ * voltam ao valor original em uma busca para trás ou após a medição da duração.
+ */
+export const setValue = <T>(target: SharedValue<T>, value: T) => {
+	AnimationClock.current?.preserve(target, "value", () => {
+		const previous = target.value;
+		return () => (target.value = previous);
+	});
+
+	target.value = value;
+};
+
+export const run = (animation?: AnimationInput): InputGenerator | undefined => {
+	return typeof animation === "function" ? animation() : animation;
+};
+
+/**
+ * Indica se a animação em execução deve ter o movimento reduzido. Fora de um `useAnimation`, apenas a política global `"always"` reduz o movimento.
+ */
+export const isMotionReduced = (): boolean => {
+	return AnimationClock.current?.motionReduced ?? AnimationClock.reducedMotion === "always";
+};
+
+/**
+ * Tempo, em milissegundos, que a próxima leitura de `timeSincePreviousFrame` retorna sem aguardar um quadro (veja `ahead`).
+ */
+let lead = 0;
+
+/**
+ * Aguarda o próximo quadro e retorna o tempo decorrido desde o anterior, em milissegundos.
+ * Dentro de um `useAnimation` o tempo vem do relógio da instância (respeitando pausa, velocidade e busca);
+ * fora dele, usa diretamente o quadro de animação do navegador.
+ */
+export function* timeSincePreviousFrame(): InputGenerator<number> {
+	if (lead > 0) {
+		const time = lead;
+		lead = 0;
+		return time;
+	}
+
+	const clock = AnimationClock.current;
+
+	if (!clock) {
+		return yield* nextFrame();
+	}
+
+	yield;
+	return clock.delta;
+}
+
+/**
+ * Executa um gerador como se ele tivesse começado `time` milissegundos antes do quadro atual: a primeira leitura de
+ * `timeSincePreviousFrame` feita no seu passo inicial retorna esse tempo de imediato, em vez de aguardar o próximo quadro.
+ */
+export function* ahead<T>(time: number, generator: InputGenerator<T>): InputGenerator<T> {
+	let result: IteratorResult<unknown, T>;
+	let input: unknown;
+
+	lead = time;
+
+	try {
+		result = generator.next();
+	} finally {
+		lead = 0;
+	}
+
+	try {
+		while (!result.done) {
+			input = yield result.value;
+			result = generator.next(input);
+		}
+
+		return result.value;
+	} finally {
+		generator.return(undefined as T);
+	}
+}
+
+/**
+ * Os helpers de tempo a seguir (`timing`, `wait`, `waitUntil`, `delay`, `stagger`, `sequence` e `loop`) reproduzem os de
+ * `@ismael1361/animation`, com os mesmos padrões, mas leem o tempo de `timeSincePreviousFrame` para seguir o relógio da
+ * instância. Os testes de `useAnimation` comparam os dois quadro a quadro.
+ */
+export function* timing(value: SharedValue<number> | TimingCallback, config: TimingConfig = {}): InputGenerator {
+	const { from = value instanceof SharedValue ? value.value : 0, to = 1, duration = 300, easing = DEFAULT_EASING, delay = 0 } = config;
+
+	const apply = (current: number): boolean => {
+		if (value instanceof SharedValue) {
+			setValue(value, current);
+			return false;
+		}
+		return value(current) === true;
+	};
+
+	if (delay > 0) {
+		yield* wait(delay);
+	}
+
+	if (apply(from)) {
+		return;
+	}
+
+	if (duration <= 0 || isMotionReduced()) {
+		apply(to);
+		return;
+	}
+
+	let elapsed = 0;
+
+	while (elapsed < duration) {
+		elapsed += yield* timeSincePreviousFrame();
+		if (duration - elapsed <= EPSILON) elapsed = duration;
+
+		const progress = easing(Math.min(elapsed / duration, 1));
+
+		if (apply(from + (to - from) * progress)) {
+			return;
+		}
+	}
+}
+
+export function* wait(duration: number = 1000): InputGenerator {
+	let elapsed = 0;
+
+	while (elapsed < duration) {
+		elapsed += yield* timeSincePreviousFrame();
+		if (duration - elapsed <= EPSILON) elapsed = duration;
+	}
+}
+
+export function* waitUntil(value: SharedValue<boolean>, invert: boolean = false): InputGenerator {
+	while (value.value === invert) {
+		yield* timeSincePreviousFrame();
+	}
+}
+
+export function* delay(duration: number = 1000, animation?: AnimationInput): InputGenerator {
+	yield* wait(duration);
+
+	const generator = run(animation);
+
+	if (generator) {
+		yield* generator;
+	}
+}
+
+export function stagger(delayMs: number, ...animations: AnimationInput[]): InputGenerator {
+	return parallel(...animations.map((animation, index) => () => delay(index * delayMs, animation)));
+}
+
+export function sequence(delayMs: number, ...animations: AnimationInput[]): InputGenerator {
+	return chain(...animations.map((animation, index) => () => delay(index === 0 ? 0 : delayMs, animation)));
+}
+
+/**
+ * Repete uma animação. Com movimento reduzido, loops infinitos não são iniciados.
+ * A cada nova volta, o relógio da instância é avisado de quantas voltas já foram concluídas (veja `onIteration`).
+ */
+export function loop(factory: (...args: any[]) => InputGenerator): InputGenerator;
+export function loop(iterations: number, factory: (...args: any[]) => InputGenerator): InputGenerator;
+export function* loop(iterations: number | ((...args: any[]) => InputGenerator), factory?: (...args: any[]) => InputGenerator): InputGenerator {
+	const clock = AnimationClock.current;
+	let count = 0;
+
+	const counted =
+		(create: (...args: any[]) => InputGenerator) =>
+		(...args: any[]): InputGenerator => {
+			if (count > 0) clock?.iterate(count);
+			count++;
+			return create(...args);
+		};
+
+	if (typeof iterations === "function") {
+		if (isMotionReduced()) return;
+		return yield* repeat(counted(iterations));
+	}
+
+	if (iterations === Infinity && isMotionReduced()) return;
+	return yield* repeat(iterations, counted(factory as (...args: any[]) => InputGenerator));
+}
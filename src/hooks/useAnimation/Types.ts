@@ -1,10 +1,14 @@
-import { TimingConfig } from "@ismael1361/animation";
+import { InputGenerator, TimingConfig } from "@ismael1361/animation";
 import { Color } from "@ismael1361/utils";
 
 export type DOMElement = HTMLElement | SVGElement | null;
 
 export type UnitType = "px" | "cm" | "mm" | "in" | "pt" | "pc" | "%" | "em" | "ex" | "ch" | "rem" | "vh" | "vw" | "vmin" | "vmax" | "";
 
+export type AngleUnit = "deg" | "rad" | "grad" | "turn";
+
+export type TransformFunction = "translate" | "translateX" | "translateY" | "scale" | "scaleX" | "scaleY" | "rotate" | "skew" | "skewX" | "skewY";
+
 export type MarginDefinition = [number] | [number, number] | [number, number, number] | [number, number, number, number];
 
 export interface BoxShadowDefinition {
@@ -24,3 +28,262 @@ export interface ValueType<T = number> extends Omit<TimingConfig, "from" | "to">
 export interface ValueUnit<T = number> extends ValueType<T> {
 	unit?: UnitType;
 }
+
+export interface ValueAngle<T = number> extends ValueType<T> {
+	unit?: AngleUnit;
+}
+
+export interface LayoutOffset {
+	/**
+	 * Deslocamento horizontal, em pixels.
+	 */
+	x: number;
+	/**
+	 * Deslocamento vertical, em pixels.
+	 */
+	y: number;
+	/**
+	 * Escala horizontal.
+	 */
+	scaleX: number;
+	/**
+	 * Escala vertical.
+	 */
+	scaleY: number;
+}
+
+export interface SpringConfig {
+	/**
+	 * Valor inicial. Se omitido, parte do valor atual do alvo (ou da mola em execução que está sendo interrompida).
+	 */
+	from?: number;
+	/**
+	 * Valor final para o qual a mola converge.
+	 */
+	to: number;
+	/**
+	 * Rigidez da mola. Valores maiores produzem movimentos mais rápidos. Padrão `100`.
+	 */
+	stiffness?: number;
+	/**
+	 * Amortecimento. Valores menores produzem mais oscilação. Padrão `10`.
+	 */
+	damping?: number;
+	/**
+	 * Massa do objeto acoplado à mola. Padrão `1`.
+	 */
+	mass?: number;
+	/**
+	 * Velocidade inicial em unidades por segundo. Se omitida, herda a velocidade da mola interrompida.
+	 */
+	velocity?: number;
+	/**
+	 * Limite abaixo do qual deslocamento e velocidade são considerados em repouso. Padrão `0.01`.
+	 */
+	restThreshold?: number;
+}
+
+export type SpringCallback = (value: number) => boolean | void;
+
+export interface DecayConfig {
+	/**
+	 * Valor inicial. Se omitido, parte do valor atual do alvo.
+	 */
+	from?: number;
+	/**
+	 * Velocidade inicial em unidades por segundo, como a velocidade de um gesto ao ser solto.
+	 */
+	velocity: number;
+	/**
+	 * Fração da velocidade mantida a cada milissegundo, entre `0` e `1`. Valores maiores deslizam por mais tempo. Padrão `0.998`.
+	 */
+	deceleration?: number;
+	/**
+	 * Limites `[mínimo, máximo]` do valor. A animação termina ao atingir um deles.
+	 */
+	clamp?: [number, number];
+	/**
+	 * Velocidade, em unidades por segundo, abaixo da qual o movimento é considerado parado. Padrão `0.5`.
+	 */
+	restThreshold?: number;
+}
+
+export type DecayCallback = (value: number) => boolean | void;
+
+export interface SpringValueType<T = number> extends Omit<SpringConfig, "from" | "to"> {
+	from: T;
+	to: T;
+}
+
+export interface SpringValueUnit<T = number> extends SpringValueType<T> {
+	unit?: UnitType;
+}
+
+export interface SpringValueAngle<T = number> extends SpringValueType<T> {
+	unit?: AngleUnit;
+}
+
+export type AnimationInput = InputGenerator | (() => InputGenerator);
+
+export type TimingCallback = (value: number) => boolean | void;
+
+export type StyleValue = number | string | Color;
+
+export interface ValueStyle extends Omit<ValueType<StyleValue>, "from"> {
+	/**
+	 * Valor inicial. Se omitido, usa o valor calculado (`getComputedStyle`) do elemento no início da animação.
+	 */
+	from?: StyleValue;
+	/**
+	 * Unidade aplicada a valores numéricos.
+	 */
+	unit?: UnitType;
+}
+
+export interface SpringValueStyle extends Omit<SpringValueType<StyleValue>, "from"> {
+	from?: StyleValue;
+	unit?: UnitType;
+}
+
+export type KeyframeValue = StyleValue;
+
+export type KeyframeEasing = NonNullable<TimingConfig["easing"]>;
+
+export interface KeyframeDefinition {
+	/**
+	 * Posição do quadro-chave na animação, de `0` a `1`. Se omitida, os quadros são distribuídos igualmente entre os vizinhos.
+	 */
+	offset?: number;
+	/**
+	 * Curva aplicada do quadro-chave até o próximo. Padrão: o `easing` da configuração.
+	 */
+	easing?: KeyframeEasing;
+	[property: string]: KeyframeValue | KeyframeEasing | undefined;
+}
+
+export interface KeyframesConfig {
+	/**
+	 * Duração total, em milissegundos. Padrão `300`.
+	 */
+	duration?: number;
+	/**
+	 * Curva padrão entre quadros que não definem o próprio `easing`. Padrão `Easing.linear`.
+	 */
+	easing?: KeyframeEasing;
+	/**
+	 * Atraso antes do início, em milissegundos.
+	 */
+	delay?: number;
+}
+
+export type KeyframesCallback = (values: Record<string, KeyframeValue>) => boolean | void;
+
+export type TimelinePosition = number | string;
+
+export type DOMAnimationBackend = "frame" | "waapi";
+
+export interface DOMAnimationOptions {
+	/**
+	 * Como os helpers de `timing` de `opacity`, `transform` e cor são executados. Padrão `"frame"`.
+	 * - `"frame"`: o valor é calculado e aplicado no estilo do elemento a cada quadro;
+	 * - `"waapi"`: a animação é compilada em quadros-chave de `element.animate()` (Web Animations API), que o navegador pode executar fora da thread principal.
+	 */
+	backend?: DOMAnimationBackend;
+}
+
+/**
+ * Elemento a partir do qual o atraso de `domAll` é distribuído: o primeiro, o central, o último ou um índice.
+ */
+export type StaggerFrom = "start" | "center" | "end" | number;
+
+export interface DOMAnimationGroupOptions extends DOMAnimationOptions {
+	/**
+	 * Atraso, em milissegundos, entre o início das animações de elementos vizinhos na ordem definida por `from`. Padrão `0`.
+	 */
+	stagger?: number;
+	/**
+	 * Elemento que começa primeiro; os demais começam conforme a distância até ele. Padrão `"start"`.
+	 */
+	from?: StaggerFrom;
+}
+
+/**
+ * Uma lista de elementos ou refs (como um `NodeList` ou um array), ou uma ref que aponta para essa lista.
+ */
+export type DOMTargets<E extends DOMElement> = ArrayLike<E | React.RefObject<E>> | React.RefObject<ArrayLike<E | React.RefObject<E>>>;
+
+export type ReducedMotionPolicy = "user" | "always" | "never";
+
+export interface AnimationOptions {
+	/**
+	 * Política de movimento reduzido desta animação. Se omitida, usa a política global definida por `setReducedMotion` (padrão `"user"`).
+	 * - `"user"`: reduz o movimento quando o sistema pede (`prefers-reduced-motion: reduce`);
+	 * - `"always"`: sempre reduz;
+	 * - `"never"`: nunca reduz.
+	 */
+	reducedMotion?: ReducedMotionPolicy;
+}
+
+export interface UseAnimationOptions extends AnimationOptions {
+	/**
+	 * Se `false`, o componente não é re-renderizado a cada quadro em que os valores do estado mudam, apenas quando o `status`
+	 * da reprodução muda. Útil quando os valores são aplicados diretamente no DOM com `useAnimatedStyle`. Padrão `true`.
+	 */
+	rerender?: boolean;
+	/**
+	 * Chamado quando a animação começa do início, inclusive quando é reiniciada por uma mudança em `deps`.
+	 */
+	onStart?: () => void;
+	/**
+	 * Chamado quando a animação chega ao fim (ou ao início, se estiver em sentido inverso).
+	 */
+	onComplete?: () => void;
+	/**
+	 * Chamado quando a animação é interrompida antes do fim: por `stop()`, por uma mudança em `deps` ou ao desmontar o componente.
+	 */
+	onCancel?: () => void;
+	/**
+	 * Chamado a cada nova volta de `this.loop`, com o número de voltas já concluídas. Não é chamado durante `seek`.
+	 */
+	onIteration?: (count: number) => void;
+	/**
+	 * Nome com que a animação aparece no inspetor (`animationInspector`), quando ele está ativo. Padrão `"animation"`.
+	 */
+	name?: string;
+}
+
+export type AnimationStatus = "idle" | "running" | "paused" | "finished";
+
+export interface AnimationPlayback {
+	/**
+	 * Estado atual da reprodução.
+	 */
+	readonly status: AnimationStatus;
+	/**
+	 * Posição atual da animação, em milissegundos.
+	 */
+	readonly time: number;
+	/**
+	 * Duração total da animação, em milissegundos. Se a execução atual ainda não terminou, a primeira leitura (desta
+	 * propriedade ou de `progress`) a mede reexecutando o gerador até o fim. `null` se a animação não termina em até
+	 * 60 segundos (como um `loop` infinito), até que ela termine de fato.
+	 */
+	readonly duration: number | null;
+	/**
+	 * Progresso de `0` a `1` em relação a `duration`. Enquanto `duration` é `null`, é `0`.
+	 */
+	readonly progress: number;
+	/**
+	 * Multiplicador de velocidade da reprodução. `1` é a velocidade normal, `0.5` é câmera lenta.
+	 */
+	playbackRate: number;
+	pause(): void;
+	resume(): void;
+	seek(ms: number): void;
+	reverse(): void;
+	/**
+	 * Promessa da execução atual: resolvida com `true` quando a animação termina ou com `false` quando é interrompida antes do fim.
+	 * Se a animação já terminou, é resolvida imediatamente; uma nova execução cria uma nova promessa.
+	 */
+	readonly finished: Promise<boolean>;
+}
@@ -1,7 +1,51 @@
-import { BoxShadowDefinition, MarginDefinition, UnitType } from "./Types";
+import { Color } from "@ismael1361/utils";
+import { BoxShadowDefinition, MarginDefinition, SpringConfig, StyleValue, TransformFunction, UnitType } from "./Types";
 
 export const parseMargin = (m: MarginDefinition) => ({ top: m[0], right: m[1] || m[0], bottom: m[2] || m[0], left: m[3] || m[1] || m[0] });
 
+/**
+ * Propriedades de estilo cujos valores numéricos não recebem `px`.
+ */
+export const UNITLESS = ["opacity", "zIndex", "fontWeight", "lineHeight", "flex", "flexGrow", "flexShrink", "order", "zoom", "fillOpacity", "strokeOpacity"];
+
+/**
+ * Converte o nome de uma propriedade de estilo em camelCase (`borderRadius`) para o nome usado por `setProperty` (`border-radius`).
+ * Variáveis CSS (`--name`) são mantidas.
+ */
+export const toStyleProperty = (property: string): string => {
+	return property.startsWith("--") ? property : property.replace(/[A-Z]/g, (letter) => "-" + letter.toLowerCase());
+};
+
+export const TRANSFORM_ORDER: TransformFunction[] = ["translate", "translateX", "translateY", "scale", "scaleX", "scaleY", "rotate", "skew", "skewX", "skewY"];
+
+export const composeTransform = (parts: Partial<Record<TransformFunction, string>>): string => {
+	return TRANSFORM_ORDER.filter((fn) => parts[fn] !== undefined)
+		.map((fn) => `${fn}(${parts[fn]})`)
+		.join(" ");
+};
+
+/**
+ * Separa um `transform` nas funções que os helpers controlam (`parts`, como em `composeTransform`) e nas demais
+ * (`base`, como `perspective`, `matrix` ou `rotateX`), mantidas na ordem original.
+ */
+export const parseTransform = (transform: string): { base: string; parts: Partial<Record<TransformFunction, string>> } => {
+	const parts: Partial<Record<TransformFunction, string>> = {};
+	const base: string[] = [];
+
+	(transform.match(/[\w-]+\((?:[^()]|\([^()]*\))*\)/g) ?? []).forEach((fn) => {
+		const name = fn.slice(0, fn.indexOf("(")) as TransformFunction;
+
+		if (TRANSFORM_ORDER.includes(name)) parts[name] = fn.slice(name.length + 1, -1);
+		else base.push(fn);
+	});
+
+	return { base: base.join(" "), parts };
+};
+
+export const isSpringConfig = (config: object): config is SpringConfig => {
+	return ["stiffness", "damping", "mass", "velocity", "restThreshold"].some((key) => key in config);
+};
+
 export const parseUnit = (unit: string): [number, UnitType] => {
 	const [n, u = ""] = (unit
 		.replace(/\s/gi, "")
@@ -11,6 +55,78 @@ export const parseUnit = (unit: string): [number, UnitType] => {
 	return [n, u];
 };
 
+const NUMBER = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+const SINGLE_NUMBER = /^-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?[a-z%]*$/i;
+const COLOR = /^(#[0-9a-f]{3,8}|(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(.*\)|[a-z]+)$/i;
+const KEYWORDS = ["none", "auto", "normal", "inherit", "initial", "unset", "revert", "currentcolor"];
+
+const isColor = (value: string) => COLOR.test(value) && !KEYWORDS.includes(value.toLowerCase());
+
+/**
+ * Interpola dois valores de estilo:
+ * - números e valores simples com unidade (`"10px"`), lidos com `parseUnit`;
+ * - cores (`"#f00"`, `"rgb(...)"`, nomes), misturadas com `Color` (com `t` limitado entre `0` e `1`);
+ * - listas com a mesma estrutura (`"10px 20px"`, `"blur(2px) brightness(1.2)"`), número a número.
+ *
+ * Valores incompatíveis trocam de um para o outro na metade da animação, como as propriedades discretas do CSS.
+ * @param unit Unidade usada para números sem unidade quando o outro lado é uma string.
+ */
+export const mixValues = (from: StyleValue, to: StyleValue, t: number, unit: UnitType = ""): StyleValue => {
+	if (typeof from === "number" && typeof to === "number") {
+		return from + (to - from) * t;
+	}
+
+	const format = (value: number) => String(+value.toFixed(3));
+	const a = typeof from === "number" ? from + unit : from.toString().trim();
+	const b = typeof to === "number" ? to + unit : to.toString().trim();
+
+	if (SINGLE_NUMBER.test(a) && SINGLE_NUMBER.test(b)) {
+		const [na, ua] = parseUnit(a);
+		const [nb, ub] = parseUnit(b);
+
+		if (ua === ub || !ua || !ub) {
+			return format(na + (nb - na) * t) + (ub || ua);
+		}
+	}
+
+	if (isColor(a) && isColor(b)) {
+		return new Color(a).blend(b, Math.min(Math.max(t, 0), 1)).toString();
+	}
+
+	const numbers = a.match(NUMBER) ?? [];
+
+	if (a.replace(NUMBER, "0") === b.replace(NUMBER, "0")) {
+		let index = 0;
+		return b.replace(NUMBER, (value: string) => {
+			const start = parseFloat(numbers[index++]);
+			return format(start + (parseFloat(value) - start) * t);
+		});
+	}
+
+	return t < 0.5 ? a : b;
+};
+
+export const toUnitValue = (value: string | number | [number, UnitType], unit: UnitType = "px"): [number, UnitType] => {
+	if (Array.isArray(value)) return value;
+	if (typeof value === "number") return [value, unit];
+	return parseUnit(value);
+};
+
+export const toNumberList = (value: number | number[] | string): number[] => {
+	if (typeof value === "number") return [value];
+	if (Array.isArray(value)) return value;
+	return (value.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+};
+
+export const transparentBoxShadow = (inset: boolean = false): BoxShadowDefinition => ({
+	inset,
+	offsetX: [0, "px"],
+	offsetY: [0, "px"],
+	blurRadius: [0, "px"],
+	spreadRadius: [0, "px"],
+	color: "rgba(0, 0, 0, 0)",
+});
+
 export const parseBoxShadow = (shadowString: string): BoxShadowDefinition[] => {
 	const shadows: BoxShadowDefinition[] = [];
 
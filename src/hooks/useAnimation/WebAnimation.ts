@@ -0,0 +1,122 @@
+import { InputGenerator, TimingConfig } from "@ismael1361/animation";
+import AnimationClock from "./AnimationClock";
+import { DEFAULT_EASING, EPSILON, isMotionReduced, timeSincePreviousFrame, wait } from "./Timing";
+import { KeyframeEasing } from "./Types";
+
+/**
+ * Ponto amostrado de uma curva de `easing`: `[offset, progresso]`, ambos de `0` a `1`.
+ */
+export type EasingSample = [offset: number, progress: number];
+
+export interface WebAnimationTrack {
+	/** Aplica um valor diretamente no estilo do elemento. Usado ao final da animação, quando ela é interrompida e com movimento reduzido. */
+	apply: (value: number) => void;
+	/** Converte um valor em um quadro-chave da Web Animations API. */
+	frame: (value: number) => Keyframe;
+	/** Como o quadro-chave é combinado com o valor de base da propriedade. Padrão `"replace"`. */
+	composite?: CompositeOperation;
+	/** Executado logo antes de a animação ser criada (após o `delay`). */
+	start?: () => void;
+}
+
+/**
+ * Quantidade de intervalos usados para amostrar curvas de `easing` que não são lineares.
+ */
+const SAMPLES = 24;
+
+/**
+ * Diferença máxima, em milissegundos, entre o tempo da animação do navegador e o tempo do relógio antes de ser corrigida
+ * durante a reprodução. Cobre o quadro em que a animação ainda está pendente; diferenças maiores vêm de uma busca (`seek`).
+ * Com o relógio pausado, o tempo é sempre copiado exatamente.
+ */
+const MAX_DRIFT = 1000 / 30;
+
+/**
+ * Indica se a Web Animations API está disponível para o elemento, incluindo o suporte a `composite` quando necessário.
+ */
+export const supportsWebAnimations = (element: Element | null, composite: CompositeOperation = "replace"): element is Element => {
+	if (!element || typeof element.animate !== "function") return false;
+	return composite === "replace" || (typeof KeyframeEffect !== "undefined" && "composite" in KeyframeEffect.prototype);
+};
+
+/**
+ * Amostra uma curva de `easing` para que ela seja reproduzida por quadros-chave ligados linearmente, já que funções
+ * JavaScript não podem ser passadas como `easing` para o navegador. Curvas lineares resultam em apenas dois pontos.
+ * Retorna `null` se a curva não produzir valores finitos.
+ */
+export const sampleEasing = (easing: KeyframeEasing = DEFAULT_EASING): EasingSample[] | null => {
+	const samples: EasingSample[] = [];
+	let linear = true;
+
+	for (let i = 0; i <= SAMPLES; i++) {
+		const offset = i / SAMPLES;
+		const progress = easing(offset);
+
+		if (!Number.isFinite(progress)) return null;
+		if (Math.abs(progress - offset) > 1e-3) linear = false;
+
+		samples.push([offset, progress]);
+	}
+
+	return linear ? [samples[0], samples[SAMPLES]] : samples;
+};
+
+/**
+ * Executa uma animação de `timing` através de `element.animate()`, mantendo o contrato de `InputGenerator`:
+ * o gerador avança quadro a quadro pelo tempo do relógio e só termina após `duration`, então pode ser combinado
+ * com `parallel`, `chain` e `any` como qualquer outro. Dentro de um `useAnimation`, a animação do navegador
+ * acompanha a pausa, a velocidade e as buscas do relógio.
+ */
+export function* webAnimation(element: Element, track: WebAnimationTrack, samples: EasingSample[], config: TimingConfig = {}): InputGenerator {
+	const { from = 0, to = 1, duration = 300, easing = DEFAULT_EASING, delay = 0 } = config;
+
+	if (delay > 0) {
+		yield* wait(delay);
+	}
+
+	if (duration <= 0 || isMotionReduced()) {
+		track.apply(to);
+		return;
+	}
+
+	track.start?.();
+
+	const keyframes = samples.map(([offset, progress]) => ({ ...track.frame(from + (to - from) * progress), offset }));
+	const animation = element.animate(keyframes, { duration, easing: "linear", fill: "forwards", composite: track.composite ?? "replace" });
+	const clock = AnimationClock.current;
+
+	const sync = () => {
+		if (!clock) return;
+
+		const rate = clock.direction > 0 ? clock.playbackRate : 0;
+		if (animation.playbackRate !== rate) animation.playbackRate = rate;
+
+		if (clock.status === "paused") {
+			if (animation.playState !== "paused") animation.pause();
+		} else if (animation.playState === "paused") {
+			animation.play();
+		}
+	};
+
+	const event = clock?.onChange(sync);
+	sync();
+
+	let elapsed = 0;
+
+	try {
+		while (elapsed < duration) {
+			elapsed += yield* timeSincePreviousFrame();
+			if (duration - elapsed <= EPSILON) elapsed = duration;
+
+			const drift = Math.abs(Number(animation.currentTime ?? 0) - elapsed);
+
+			if (drift > MAX_DRIFT || (drift > 0 && clock?.status === "paused")) {
+				animation.currentTime = elapsed;
+			}
+		}
+	} finally {
+		event?.stop();
+		track.apply(from + (to - from) * easing(Math.min(elapsed / duration, 1)));
+		animation.cancel();
+	}
+}
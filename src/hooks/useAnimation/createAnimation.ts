@@ -0,0 +1,31 @@
+import { create, AnimationState } from "@ismael1361/animation";
+import AnimationClock from "./AnimationClock";
+import ProcessProps, { AnimationFn } from "./ProcessProps";
+
+/**
+ * Cria o controlador de `@ismael1361/animation` para um gerador de animação, executado através de um `AnimationClock`
+ * e com `this` vinculado aos utilitários de `useAnimation`.
+ *
+ * @param animation A função geradora da animação.
+ * @param state O objeto de estado inicial.
+ * @param initialState Retorna o estado a ser restaurado quando a animação é reexecutada desde o início (ex.: em `seek`).
+ */
+export const createAnimation = <S extends AnimationState>(animation: AnimationFn<S>, state: S, initialState: () => S = () => state) => {
+	const clock: AnimationClock = new AnimationClock(
+		() => animation.call(ProcessProps, controller.state),
+		() => {
+			const initial = initialState();
+
+			for (const key in initial) {
+				controller.state[key].value = initial[key];
+			}
+		},
+		() => controller.start(),
+	);
+
+	const controller = create(function* () {
+		yield* clock.drive();
+	}, state);
+
+	return { controller: clock.attach(controller), clock };
+};
@@ -1,41 +1,40 @@
-import { InputGenerator, create, SharedValues, AnimationState, AnimationProps } from "@ismael1361/animation";
+import { AnimationState, AnimationProps } from "@ismael1361/animation";
 import { useEffect, useMemo, useRef, useState } from "react";
-import AnimationScope from "./AnimationScope";
-import DOMAnimationHelpers from "./DOMAnimationHelpers";
-import { DOMElement } from "./Types";
+import { useMediaQuery } from "../useMediaQuery";
+import AnimationClock from "./AnimationClock";
+import { createAnimation } from "./createAnimation";
+import { animationInspector } from "./Inspector";
+import { AnimationFn } from "./ProcessProps";
+import { AnimationPlayback, ReducedMotionPolicy, UseAnimationOptions } from "./Types";
 
-const ProcessProps = {
-	...AnimationScope,
-
-	/**
-	 * Cria um conjunto de helpers de animação para um elemento DOM específico.
-	 * Isso permite encadear animações diretamente em um elemento ou ref do React.
-	 *
-	 * @param {E | React.RefObject<E>} element O elemento DOM a ser animado, ou uma ref do React que aponta para ele.
-	 * @returns {DOMAnimationHelpers<E>} Um objeto com métodos de animação específicos para o DOM (`opacity`, `width`, `height`, `margin`, etc...).
-	 * @example
-	 * ```tsx
-	 * const myDiv = useRef(null);
-	 *
-	 * useAnimation(function*() {
-	 *   // Anima a opacidade do div de 0 para 1
-	 *   yield* this.dom(myDiv).opacity({ from: 0, to: 1, duration: 1000 });
-	 *
-	 *   // Em paralelo, anima a largura
-	 *   yield* this.dom(myDiv).width({ from: 100, to: 200, unit: 'px', duration: 1000 });
-	 * });
-	 *
-	 * return <div ref={myDiv} style={{ width: 100, height: 100, backgroundColor: 'blue' }} />;
-	 * ```
-	 */
-	dom<E extends DOMElement>(element: E | React.RefObject<E>): DOMAnimationHelpers<E> {
-		return new DOMAnimationHelpers(element);
-	},
-} as const;
-
-type AnimationFnProps = typeof ProcessProps;
+/**
+ * Media query que indica que o usuário pediu ao sistema para reduzir o movimento.
+ */
+export const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
 
-type AnimationFn<S extends AnimationState> = (this: AnimationFnProps, state: SharedValues<S>["current"]) => InputGenerator;
+/**
+ * Define a política global de movimento reduzido, usada por todas as animações que não definem `reducedMotion` nas suas opções.
+ *
+ * - `"user"` (padrão): segue a preferência do sistema (`prefers-reduced-motion: reduce`);
+ * - `"always"`: sempre reduz o movimento;
+ * - `"never"`: nunca reduz o movimento.
+ *
+ * Com movimento reduzido, `timing` e `spring` (e os helpers de `this.dom`, que os usam) aplicam o valor final imediatamente
+ * e loops infinitos não são iniciados.
+ *
+ * @param {ReducedMotionPolicy} policy A nova política global.
+ *
+ * @example
+ * ```ts
+ * import { setReducedMotion } from '@ismael1361/react-use';
+ *
+ * // Ex.: a partir de uma preferência de acessibilidade do próprio aplicativo
+ * setReducedMotion(settings.animations ? 'user' : 'always');
+ * ```
+ */
+export const setReducedMotion = (policy: ReducedMotionPolicy) => {
+	AnimationClock.reducedMotion = policy;
+};
 
 /**
  * Um hook do React para criar e gerenciar animações complexas de forma declarativa.
@@ -52,8 +51,16 @@ type AnimationFn<S extends AnimationState> = (this: AnimationFnProps, state: Sha
  * @param {S} [state={}] O objeto de estado inicial para a animação. Cada propriedade se tornará um `SharedValue`.
  * @param {React.DependencyList} [deps=[]] Uma lista de dependências. Se qualquer uma dessas dependências mudar,
  *   a animação será recriada. Semelhante ao `useMemo`.
- * @returns {AnimationProps<S>} A instância do controlador de animação. Use seus métodos (`.start()`, `.stop()`, etc.)
+ * @param {UseAnimationOptions} [options={}] Opções da animação, como a política de movimento reduzido (`reducedMotion`).
+ *   Com movimento reduzido, `timing` e `spring` aplicam o valor final imediatamente e loops infinitos não são iniciados.
+ *   Com `rerender: false`, o componente só é re-renderizado quando o `status` da reprodução muda (veja `useAnimatedStyle`).
+ *   `onStart`, `onComplete`, `onCancel` e `onIteration` são chamados nas mudanças do ciclo de vida da animação.
+ *   `name` identifica a animação no inspetor de desenvolvimento (veja `animationInspector`).
+ * @returns {AnimationProps<S> & AnimationPlayback} A instância do controlador de animação. Use seus métodos (`.start()`, `.stop()`, etc.)
  *   para controlar a animação e acesse `.state[key].value` para obter os valores atuais para renderização.
+ *   O controlador também oferece controles de reprodução (`.pause()`, `.resume()`, `.seek(ms)`, `.reverse()` e `.playbackRate`)
+ *   e expõe `.status`, `.time`, `.duration` e `.progress`, que re-renderizam o componente quando mudam.
+ *   `.finished` é uma promessa resolvida com `true` quando a execução atual termina ou com `false` se ela for interrompida.
  *
  * @example
  * ```tsx
@@ -85,25 +92,123 @@ type AnimationFn<S extends AnimationState> = (this: AnimationFnProps, state: Sha
  *   return <div style={style} />;
  * };
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Sequência controlada por um slider, com modo câmera lenta
+ * const Onboarding = () => {
+ *   const title = useRef(null);
+ *
+ *   const animation = useAnimation(function* () {
+ *     yield* this.dom(title).opacity({ from: 0, to: 1, duration: 500 });
+ *     yield* this.dom(title).translateY({ from: 20, to: 0, duration: 500 });
+ *   });
+ *
+ *   return (
+ *     <div>
+ *       <h1 ref={title}>Bem-vindo</h1>
+ *       <input
+ *         type="range"
+ *         min={0}
+ *         max={1000}
+ *         value={animation.time}
+ *         onChange={(e) => {
+ *           animation.pause();
+ *           animation.seek(Number(e.target.value));
+ *         }}
+ *       />
+ *       <button onClick={() => animation.reverse()}>Inverter</button>
+ *       <button onClick={() => (animation.playbackRate = 0.25)}>Câmera lenta</button>
+ *       <p>{animation.status} - {Math.round(animation.progress * 100)}%</p>
+ *     </div>
+ *   );
+ * };
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Remove o aviso quando a animação termina e lê a mensagem quando ela começa
+ * const Toast = ({ message, onDismiss }) => {
+ *   const animation = useAnimation(
+ *     function* (state) {
+ *       yield* this.timing(state.opacity, { to: 1, duration: 200 });
+ *       yield* this.wait(3000);
+ *       yield* this.timing(state.opacity, { to: 0, duration: 200 });
+ *     },
+ *     { opacity: 0 },
+ *     [message],
+ *     {
+ *       onStart: () => announce(message),
+ *       onComplete: onDismiss,
+ *     },
+ *   );
+ *
+ *   // Ou, fora das opções, aguardando a execução atual
+ *   const skip = async () => {
+ *     animation.seek(3000);
+ *     if (await animation.finished) console.log('Aviso encerrado');
+ *   };
+ *
+ *   return <div style={{ opacity: animation.state.opacity.value }} onClick={skip}>{message}</div>;
+ * };
+ * ```
  */
-export const useAnimation = <S extends AnimationState>(animation: AnimationFn<S>, state: S = {} as S, deps: React.DependencyList = []) => {
+export const useAnimation = <S extends AnimationState>(
+	animation: AnimationFn<S>,
+	state: S = {} as S,
+	deps: React.DependencyList = [],
+	options: UseAnimationOptions = {},
+): AnimationProps<S> & AnimationPlayback => {
 	const [render, setRender] = useState({});
+	const initialState = useRef(state);
+	const config = useRef(options);
+	config.current = options;
+
+	const { controller: gen, clock } = useMemo(() => createAnimation(animation, state, () => initialState.current), []);
+	clock.policy = options.reducedMotion;
+
+	useMediaQuery(
+		REDUCED_MOTION_QUERY,
+		(matches) => {
+			clock.prefersReducedMotion = matches;
+		},
+		[clock],
+	);
 
-	const gen = useMemo(() => {
-		return create(animation.bind(ProcessProps) as any, state);
-	}, []);
+	useEffect(() => {
+		if (process.env.NODE_ENV === "production" || !animationInspector.enabled) return;
+		return animationInspector.register(clock, gen.state, config.current.name);
+	}, [clock]);
 
 	useEffect(() => {
+		let status = clock.status;
+
 		const event = gen.onChange(() => {
+			if (config.current.rerender !== false && !clock.replaying) setRender({});
+		});
+
+		const playback = clock.onChange(() => {
+			if (config.current.rerender === false && clock.status === status) return;
+			status = clock.status;
 			setRender({});
 		});
 
+		const lifecycle = [
+			clock.on("start", () => config.current.onStart?.()),
+			clock.on("complete", () => config.current.onComplete?.()),
+			clock.on("cancel", () => config.current.onCancel?.()),
+			clock.on("iteration", (count) => config.current.onIteration?.(count)),
+		];
+
+		initialState.current = state;
 		gen.restart(state);
 		// setRender({});
 
 		return () => {
 			event.stop();
+			playback.stop();
 			gen.stop(state);
+			lifecycle.forEach((listener) => listener.stop());
 		};
 	}, [gen, ...deps]);
 
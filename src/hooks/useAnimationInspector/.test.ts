@@ -0,0 +1,73 @@
+import { createElement } from "react";
+import { act, render, renderHook } from "@testing-library/react";
+import { useAnimation } from "../useAnimation";
+import { inspected } from "../useAnimation/Inspector";
+import { AnimationInspectorOverlay, animationInspector } from "./index";
+
+describe("useAnimationInspector", () => {
+	beforeEach(() => animationInspector.enable());
+	afterEach(() => animationInspector.disable());
+
+	it("should report active branches and value samples", () => {
+		const { result, unmount } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.parallel(
+						() => this.timing(state.x, { from: 0, to: 100, duration: 200, easing: this.Easing.linear }),
+						() => this.chain(this.wait(50), this.timing(state.y, { from: 0, to: 10, duration: 100 })),
+					);
+				},
+				{ x: 0, y: 0 },
+				[],
+				{ name: "card" },
+			),
+		);
+
+		const entry = animationInspector.find("card")!;
+		expect(entry).toBeDefined();
+
+		act(() => {
+			animationInspector.pause("card");
+			animationInspector.seek("card", 100);
+		});
+
+		expect(result.current.status).toBe("paused");
+		expect(entry.active.map((branch) => [branch.label, branch.depth])).toEqual([
+			["parallel", 0],
+			["timing", 1],
+			["chain", 1],
+			["timing", 2],
+		]);
+		expect(entry.samples[entry.samples.length - 1].values.x).toBeCloseTo(50, 0);
+
+		act(() => {
+			animationInspector.slowMotion("card");
+		});
+
+		expect(result.current.playbackRate).toBe(0.25);
+
+		const { container } = render(createElement(AnimationInspectorOverlay));
+		expect(container.textContent).toContain("card");
+		expect(container.querySelectorAll("polyline")).toHaveLength(2);
+
+		unmount();
+		expect(animationInspector.find("card")).toBeUndefined();
+	});
+
+	it("should stay off in production builds", () => {
+		const environment = process.env.NODE_ENV;
+		const timing = jest.fn();
+		animationInspector.disable();
+
+		try {
+			process.env.NODE_ENV = "production";
+			animationInspector.enable();
+
+			expect(animationInspector.enabled).toBe(false);
+			expect(window.__ANIMATION_INSPECTOR__).toBeUndefined();
+			expect(inspected("timing", timing)).toBe(timing);
+		} finally {
+			process.env.NODE_ENV = environment;
+		}
+	});
+});
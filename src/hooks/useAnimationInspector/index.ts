@@ -0,0 +1,181 @@
+import { CSSProperties, ReactElement, createElement, useEffect, useState } from "react";
+import { InspectedAnimation, animationInspector } from "../useAnimation/Inspector";
+
+export { AnimationInspector, InspectedAnimation, animationInspector } from "../useAnimation/Inspector";
+export type { InspectorBranch, InspectorSample } from "../useAnimation/Inspector";
+
+const SPARKLINE_WIDTH = 160;
+const SPARKLINE_HEIGHT = 20;
+
+/**
+ * Retorna as instâncias de `useAnimation` registradas no inspetor e re-renderiza o componente, no máximo uma vez por
+ * quadro, quando alguma delas muda.
+ *
+ * As animações só são registradas com o inspetor ativo (`animationInspector.enable()`). Cada item expõe `name`, `status`,
+ * `time`, `duration`, `playbackRate`, os ramos em execução (`active`), as amostras recentes dos valores do estado (`samples`)
+ * e os comandos `pause()`, `resume()`, `seek(ms)` e `slowMotion(rate)`.
+ *
+ * @returns {InspectedAnimation[]} As animações registradas.
+ *
+ * @example
+ * ```tsx
+ * import React from 'react';
+ * import { animationInspector, useAnimationInspector } from '@ismael1361/react-use';
+ *
+ * if (process.env.NODE_ENV !== 'production') animationInspector.enable();
+ *
+ * const AnimationList = () => {
+ *   const animations = useAnimationInspector();
+ *
+ *   return (
+ *     <ul>
+ *       {animations.map((animation) => (
+ *         <li key={animation.name} onClick={() => animation.slowMotion(0.1)}>
+ *           {animation.name}: {animation.active.map((branch) => branch.label).join(' > ')}
+ *         </li>
+ *       ))}
+ *     </ul>
+ *   );
+ * };
+ * ```
+ */
+export const useAnimationInspector = (): InspectedAnimation[] => {
+	const [, setRender] = useState({});
+
+	useEffect(() => {
+		let frame: number | null = null;
+
+		const event = animationInspector.onChange(() => {
+			if (frame !== null) return;
+
+			frame = requestAnimationFrame(() => {
+				frame = null;
+				setRender({});
+			});
+		});
+
+		return () => {
+			event.stop();
+			if (frame !== null) cancelAnimationFrame(frame);
+		};
+	}, []);
+
+	return animationInspector.animations;
+};
+
+const Sparkline = ({ values }: { values: number[] }) => {
+	const min = Math.min(...values);
+	const range = Math.max(...values) - min || 1;
+
+	const points = values.map((value, index) => `${(index / Math.max(values.length - 1, 1)) * SPARKLINE_WIDTH},${SPARKLINE_HEIGHT - ((value - min) / range) * SPARKLINE_HEIGHT}`).join(" ");
+
+	return createElement(
+		"svg",
+		{ width: SPARKLINE_WIDTH, height: SPARKLINE_HEIGHT, style: { display: "block" } },
+		createElement("polyline", { points, fill: "none", stroke: "currentColor", strokeWidth: 1 }),
+	);
+};
+
+const Timeline = ({ animation }: { animation: InspectedAnimation }) => {
+	const paused = animation.status === "paused";
+	const slow = animation.playbackRate !== 1;
+	const latest = animation.samples[animation.samples.length - 1]?.values ?? {};
+	const numeric = Object.keys(latest).filter((key) => typeof latest[key] === "number");
+
+	return createElement(
+		"section",
+		{ style: { padding: "6px 0", borderTop: "1px solid rgba(255, 255, 255, 0.2)" } },
+		createElement(
+			"div",
+			null,
+			createElement("strong", null, animation.name),
+			` ${animation.status} · ${Math.round(animation.time)}/${animation.duration === null ? "?" : Math.round(animation.duration)} ms · ${animation.playbackRate}x`,
+		),
+		createElement(
+			"div",
+			{ style: { display: "flex", gap: 4, alignItems: "center" } },
+			createElement("button", { type: "button", onClick: () => (paused ? animation.resume() : animation.pause()) }, paused ? "Retomar" : "Pausar"),
+			createElement("button", { type: "button", onClick: () => animation.slowMotion(slow ? 1 : 0.25) }, slow ? "1x" : "0.25x"),
+			createElement("input", {
+				type: "range",
+				min: 0,
+				max: animation.duration ?? Math.max(animation.time, 1),
+				value: animation.time,
+				onChange: (event: { target: { value: string } }) => {
+					animation.pause();
+					animation.seek(Number(event.target.value));
+				},
+			}),
+		),
+		createElement(
+			"ul",
+			{ style: { listStyle: "none", margin: 0, padding: 0 } },
+			animation.active.map((branch) => createElement("li", { key: branch.id, style: { paddingLeft: branch.depth * 8 } }, `${branch.label} @ ${Math.round(branch.start)} ms`)),
+		),
+		numeric.map((key) =>
+			createElement(
+				"div",
+				{ key },
+				`${key}: ${Number((latest[key] as number).toFixed(3))}`,
+				createElement(Sparkline, { values: animation.samples.map((sample) => sample.values[key]).filter((value): value is number => typeof value === "number") }),
+			),
+		),
+	);
+};
+
+export interface AnimationInspectorOverlayProps {
+	/** Estilos adicionais do painel, mesclados ao estilo padrão (fixo no canto inferior direito). */
+	style?: CSSProperties;
+}
+
+/**
+ * Painel de desenvolvimento que exibe a linha do tempo de cada instância de `useAnimation` registrada no inspetor: o
+ * status e a posição, os ramos em execução (`parallel`, `chain`, `timing`, ...), um gráfico das amostras recentes de
+ * cada valor numérico do estado e controles para pausar, buscar uma posição e reproduzir em câmera lenta.
+ *
+ * Não renderiza nada enquanto o inspetor está desativado.
+ *
+ * @param {AnimationInspectorOverlayProps} props Estilos adicionais do painel.
+ *
+ * @example
+ * ```tsx
+ * import React from 'react';
+ * import { AnimationInspectorOverlay, animationInspector } from '@ismael1361/react-use';
+ *
+ * if (process.env.NODE_ENV !== 'production') animationInspector.enable();
+ *
+ * const App = () => (
+ *   <>
+ *     <Routes />
+ *     <AnimationInspectorOverlay />
+ *   </>
+ * );
+ * ```
+ */
+export const AnimationInspectorOverlay = ({ style }: AnimationInspectorOverlayProps): ReactElement | null => {
+	const animations = useAnimationInspector();
+
+	if (!animationInspector.enabled) return null;
+
+	return createElement(
+		"aside",
+		{
+			style: {
+				position: "fixed",
+				right: 8,
+				bottom: 8,
+				zIndex: 2147483647,
+				width: 280,
+				maxHeight: "50vh",
+				overflow: "auto",
+				padding: 8,
+				font: "11px monospace",
+				color: "#fff",
+				background: "rgba(20, 20, 20, 0.85)",
+				borderRadius: 4,
+				...style,
+			},
+		},
+		animations.length === 0 ? "Nenhuma animação registrada" : animations.map((animation) => createElement(Timeline, { key: animation.name, animation })),
+	);
+};
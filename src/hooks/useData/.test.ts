@@ -1,5 +1,5 @@
-import { renderHook, act } from "@testing-library/react";
-import { useData } from "./index";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { applyPatch, useData, useDataSelector } from "./index";
 
 describe("useData", () => {
 	it("should return initial value", () => {
@@ -29,4 +29,398 @@ describe("useData", () => {
 			expect(result.current.canRedo).toBe(false);
 		});
 	});
+
+	it("should record changes as JSON patches and keep at most maxHistory entries", () => {
+		const { result } = renderHook(() => useData({ title: "a", items: [{ id: 1 }] as { id: number }[] }, undefined, { maxHistory: 2 }));
+
+		act(() => {
+			result.current.data.title = "b";
+			result.current.data.items.push({ id: 2 });
+		});
+
+		expect(result.current.patches[1]).toMatchObject({
+			forward: [{ op: "add", path: "/items/1", value: { id: 2 } }],
+			inverse: [{ op: "remove", path: "/items/1" }],
+		});
+
+		act(() => {
+			delete (result.current.data as any).title;
+		});
+
+		expect(result.current.patches).toHaveLength(2);
+		expect(result.current.patches[1].inverse).toEqual([{ op: "add", path: "/title", value: "b" }]);
+
+		act(() => {
+			result.current.undo();
+			result.current.undo();
+		});
+
+		expect(result.current.data).toEqual({ title: "b", items: [{ id: 1 }] });
+		expect(result.current.canUndo).toBe(false);
+
+		act(() => result.current.redo());
+		expect(result.current.data.items).toEqual([{ id: 1 }, { id: 2 }]);
+		expect(result.current.historyIndex).toBe(1);
+	});
+
+	it("should keep child proxies stable and record their changes at the current position", () => {
+		const { result } = renderHook(() => useData({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] }));
+
+		expect(result.current.data.items).toBe(result.current.data.items);
+
+		act(() => {
+			const item = result.current.data.items[2];
+			result.current.data.items.splice(0, 1);
+			item.id = 30;
+		});
+
+		expect(result.current.data.items).toEqual([{ id: 2 }, { id: 30 }]);
+		expect(result.current.patches[1].forward).toEqual([{ op: "replace", path: "/items/1/id", value: 30 }]);
+
+		act(() => result.current.undo());
+		expect(result.current.data.items).toEqual([{ id: 2 }, { id: 3 }]);
+
+		act(() => result.current.undo());
+		expect(result.current.data.items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+		act(() => {
+			result.current.redo();
+			result.current.redo();
+		});
+		expect(result.current.data.items).toEqual([{ id: 2 }, { id: 30 }]);
+	});
+
+	it("should clear the history without touching the data, and reset both", () => {
+		const { result } = renderHook(() => useData({ value: 0 }));
+
+		act(() => {
+			result.current.data.value = 5;
+			result.current.clear();
+		});
+
+		expect(result.current.data.value).toBe(5);
+		expect(result.current.canUndo).toBe(false);
+
+		act(() => result.current.reset());
+		expect(result.current.data.value).toBe(0);
+		expect(result.current.canUndo).toBe(false);
+	});
+
+	it("should group changes with transaction, coalesce and pause", () => {
+		const now = jest.spyOn(Date, "now").mockReturnValue(1000);
+		const { result } = renderHook(() => useData({ x: 0, y: 0 }, undefined, { coalesce: 100 }));
+
+		act(() => {
+			result.current.transaction(
+				() => {
+					result.current.data.x = 10;
+					result.current.data.y = 20;
+				},
+				{ label: "Mover" },
+			);
+		});
+
+		expect(result.current.patches).toHaveLength(1);
+		expect(result.current.patches[0].label).toBe("Mover");
+
+		act(() => {
+			result.current.data.x = 11;
+			now.mockReturnValue(1050);
+			result.current.data.x = 12;
+			now.mockReturnValue(1300);
+			result.current.data.x = 13;
+		});
+
+		expect(result.current.patches).toHaveLength(3);
+
+		act(() => {
+			result.current.pause();
+			result.current.data.y = 99;
+			result.current.resume();
+		});
+
+		expect(result.current.patches).toHaveLength(3);
+
+		act(() => result.current.undo());
+		expect(result.current.data).toEqual({ x: 12, y: 99 });
+
+		act(() => result.current.undo());
+		expect(result.current.data).toEqual({ x: 10, y: 99 });
+
+		act(() => result.current.undo());
+		expect(result.current.data).toEqual({ x: 0, y: 0 });
+
+		now.mockRestore();
+	});
+
+	it("should drop the redo branch when the data changes while paused", () => {
+		const { result } = renderHook(() => useData({ x: 0 }));
+
+		act(() => {
+			result.current.data.x = 1;
+			result.current.undo();
+			result.current.pause();
+			result.current.data.x = 5;
+			result.current.resume();
+		});
+
+		expect(result.current.canRedo).toBe(false);
+
+		act(() => result.current.redo());
+		expect(result.current.data.x).toBe(5);
+	});
+
+	it("should drop the entries that a change made while paused invalidates", () => {
+		const { result } = renderHook(() => useData({ count: 0, items: [{ title: "a" }, { title: "b" }, { title: "c" }] }));
+
+		act(() => {
+			result.current.data.count = 1;
+			result.current.data.items[2].title = "C";
+			result.current.data.count = 2;
+			result.current.pause();
+			result.current.data.items = [];
+			result.current.resume();
+		});
+
+		expect(result.current.historyIndex).toBe(1);
+		expect(result.current.patches.map((patch) => patch.forward[0].path)).toEqual(["/count"]);
+
+		act(() => result.current.undo());
+		expect(result.current.data).toEqual({ count: 1, items: [] });
+		expect(result.current.canUndo).toBe(false);
+
+		act(() => {
+			result.current.data.items.push({ title: "x" }, { title: "y" });
+			result.current.data.count = 3;
+			result.current.pause();
+			result.current.data.items.shift();
+			result.current.resume();
+		});
+
+		expect(result.current.patches.map((patch) => patch.forward[0].path)).toEqual(["/count"]);
+
+		act(() => result.current.undo());
+		expect(result.current.data).toEqual({ count: 1, items: [{ title: "y" }] });
+	});
+
+	it("should skip patch operations whose path does not exist", () => {
+		const document = { items: [] as { title: string }[] };
+
+		expect(() => applyPatch(document, [{ op: "replace", path: "/items/2/title", value: "a" }])).not.toThrow();
+		expect(applyPatch(document, [{ op: "remove", path: "/missing/key" }])).toEqual({ items: [] });
+	});
+
+	it("should persist data and history and rehydrate before the first render", async () => {
+		window.localStorage.clear();
+		const persist = { storage: window.localStorage, key: "persisted", history: true };
+
+		const { result } = renderHook(() => useData({ value: 0 }, "persist-a", { persist }));
+
+		act(() => {
+			result.current.data.value = 1;
+			result.current.data.value = 2;
+		});
+
+		await waitFor(() => expect(JSON.parse(window.localStorage.getItem("persisted")!).data.value).toBe(2));
+
+		const renders: number[] = [];
+		const { result: restored } = renderHook(() => {
+			const props = useData({ value: 0 }, "persist-b", { persist });
+			renders.push(props.data.value);
+			return props;
+		});
+
+		expect(renders[0]).toBe(2);
+		expect(restored.current.canUndo).toBe(true);
+
+		act(() => restored.current.undo());
+		expect(restored.current.data.value).toBe(1);
+	});
+
+	it("should migrate data saved with an older version", () => {
+		window.localStorage.setItem("migrated", JSON.stringify({ version: 1, data: { tags: "a,b" } }));
+
+		const migrate = jest.fn((old: any) => ({ tags: old.tags.split(",") }));
+		const { result } = renderHook(() => useData({ tags: [] as string[] }, "migrate", { persist: { storage: window.localStorage, key: "migrated", version: 2, migrate } }));
+
+		expect(result.current.data.tags).toEqual(["a", "b"]);
+		expect(migrate).toHaveBeenCalledWith({ tags: "a,b" }, 1);
+	});
+
+	it("should ignore data that fails to migrate and keep saving while the context is mounted", async () => {
+		const items = new Map([["broken", JSON.stringify({ version: 1, data: { tags: 1 } })]]);
+		const storage = { getItem: (key: string) => items.get(key) ?? null, setItem: jest.fn((key: string, value: string) => void items.set(key, value)) };
+		const migrate = (old: any) => ({ tags: old.tags.split(",") });
+
+		const { result, unmount } = renderHook(() => useData({ tags: [] as string[] }, "broken", { persist: { storage, version: 2, migrate } }));
+		expect(result.current.data.tags).toEqual([]);
+
+		act(() => {
+			result.current.data.tags.push("a");
+		});
+
+		await waitFor(() => expect(storage.setItem).toHaveBeenCalledTimes(1));
+
+		const { result: other, unmount: unmountOther } = renderHook(() => useData({ tags: [] as string[] }, "broken"));
+		unmount();
+
+		act(() => {
+			other.current.data.tags.push("b");
+		});
+
+		await waitFor(() => expect(storage.setItem).toHaveBeenCalledTimes(2));
+		expect(JSON.parse(items.get("broken")!).data.tags).toEqual(["a", "b"]);
+
+		const data = other.current.data;
+		unmountOther();
+		data.tags.push("c");
+
+		await Promise.resolve();
+		expect(storage.setItem).toHaveBeenCalledTimes(2);
+	});
+
+	it("should restore persisted operations whose value is undefined", async () => {
+		window.localStorage.clear();
+		const persist = { storage: window.localStorage, key: "undefined-values", history: true };
+
+		const { result } = renderHook(() => useData<{ note?: string }>({ note: "draft" }, "undefined-a", { persist }));
+
+		act(() => {
+			result.current.data.note = undefined;
+		});
+
+		await waitFor(() => expect(window.localStorage.getItem("undefined-values")).not.toBeNull());
+
+		const { result: restored } = renderHook(() => useData<{ note?: string }>({ note: "draft" }, "undefined-b", { persist }));
+
+		expect(restored.current.patches[0].forward).toEqual([{ op: "replace", path: "/note", value: undefined }]);
+		expect("value" in restored.current.patches[0].forward[0]).toBe(true);
+
+		act(() => restored.current.undo());
+		expect(restored.current.data.note).toBe("draft");
+
+		act(() => restored.current.redo());
+		expect(restored.current.data.note).toBeUndefined();
+	});
+
+	it("should rehydrate from an async storage", async () => {
+		const items = new Map([["async", JSON.stringify({ version: 1, data: { value: 7 } })]]);
+		const storage = {
+			getItem: async (key: string) => items.get(key) ?? null,
+			setItem: async (key: string, value: string) => {
+				items.set(key, value);
+			},
+		};
+
+		const { result } = renderHook(() => useData({ value: 0 }, "async", { persist: { storage } }));
+
+		expect(result.current.hydrated).toBe(false);
+		expect(result.current.data.value).toBe(0);
+
+		await waitFor(() => expect(result.current.hydrated).toBe(true));
+		expect(result.current.data.value).toBe(7);
+
+		act(() => {
+			result.current.data.value = 8;
+		});
+
+		await waitFor(() => expect(JSON.parse(items.get("async")!).data.value).toBe(8));
+	});
+
+	it("should re-render a selector only when its slice changes", () => {
+		const initial = { todos: [{ title: "a" }, { title: "b" }] };
+		const early = renderHook(() => useDataSelector("selector", (data: typeof initial) => data.todos.length, undefined, initial));
+		expect(early.result.current).toBe(2);
+
+		const renders = { data: 0, first: 0, second: 0, list: 0 };
+		const { result } = renderHook(() => {
+			renders.data++;
+			return useData(initial, "selector");
+		});
+
+		const first = renderHook(() => {
+			renders.first++;
+			return useDataSelector("selector", (data: typeof initial) => data.todos[0].title);
+		});
+		renderHook(() => {
+			renders.second++;
+			return useDataSelector("selector", (data: typeof initial) => data.todos[1].title);
+		});
+		const list = renderHook(() => {
+			renders.list++;
+			return useDataSelector("selector", (data: typeof initial) => data.todos[0]);
+		});
+		const before = { ...renders };
+
+		act(() => {
+			result.current.data.todos[0].title = "c";
+		});
+
+		expect(first.result.current).toBe("c");
+		expect(list.result.current).toEqual({ title: "c" });
+		expect(renders.first).toBe(before.first + 1);
+		expect(renders.second).toBe(before.second);
+		expect(renders.list).toBe(before.list + 1);
+		expect(renders.data).toBe(before.data);
+
+		act(() => result.current.undo());
+		expect(first.result.current).toBe("a");
+		expect(renders.second).toBe(before.second);
+	});
+
+	it("should compare with the selection of the latest render", () => {
+		const { result } = renderHook(() => useData({ todos: [{ title: "a" }, { title: "b" }] }, "selector-props"));
+
+		const selection = renderHook(({ index }) => useDataSelector("selector-props", (data: { todos: { title: string }[] }) => data.todos[index].title), {
+			initialProps: { index: 0 },
+		});
+
+		selection.rerender({ index: 1 });
+		expect(selection.result.current).toBe("b");
+
+		act(() => {
+			result.current.data.todos[1].title = "a";
+		});
+
+		expect(selection.result.current).toBe("a");
+	});
+
+	it("should name checkpoints and jump between history states", () => {
+		const { result } = renderHook(() => useData({ text: "" }, "checkpoints"));
+		const panel = renderHook(() => useDataSelector("checkpoints", (data, { history }) => history.map(({ label }) => label)));
+
+		act(() => {
+			result.current.checkpoint("Vazio");
+			result.current.data.text = "a";
+			result.current.transaction(() => (result.current.data.text = "ab"), { label: "Digitar" });
+			result.current.checkpoint("Rascunho");
+			result.current.data.text = "abc";
+		});
+
+		expect(result.current.length).toBe(4);
+		expect(result.current.history.map(({ label, checkpoint, current }) => ({ label, checkpoint, current }))).toEqual([
+			{ label: "Vazio", checkpoint: true, current: false },
+			{ label: undefined, checkpoint: false, current: false },
+			{ label: "Rascunho", checkpoint: true, current: false },
+			{ label: undefined, checkpoint: false, current: true },
+		]);
+		expect(typeof result.current.history[1].timestamp).toBe("number");
+		expect(panel.result.current).toEqual(["Vazio", undefined, "Rascunho", undefined]);
+
+		act(() => result.current.goTo(1));
+		expect(result.current.data.text).toBe("a");
+		expect(result.current.historyIndex).toBe(1);
+
+		act(() => {
+			expect(result.current.revertTo("Rascunho")).toBe(true);
+		});
+		expect(result.current.data.text).toBe("ab");
+		expect(result.current.canRedo).toBe(true);
+
+		act(() => {
+			expect(result.current.revertTo("Vazio")).toBe(true);
+			expect(result.current.revertTo("Inexistente")).toBe(false);
+		});
+		expect(result.current.data.text).toBe("");
+	});
 });
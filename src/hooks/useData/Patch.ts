@@ -0,0 +1,333 @@
+import { deepClone } from "@ismael1361/utils";
+
+/**
+ * Uma operação de JSON Patch (RFC 6902). `path` é um JSON Pointer (RFC 6901), como `"/items/0/title"`; `""` é o documento inteiro.
+ */
+export type JsonPatchOperation = { op: "add"; path: string; value: any } | { op: "remove"; path: string } | { op: "replace"; path: string; value: any };
+
+/**
+ * Uma entrada do histórico: as operações que aplicam a mudança (`forward`) e as que a desfazem (`inverse`).
+ */
+export interface HistoryPatch {
+	forward: JsonPatchOperation[];
+	inverse: JsonPatchOperation[];
+	/** O rótulo da transação que gerou a entrada, se houver. */
+	label?: string;
+	/** O nome dado por `checkpoint` ao estado resultante desta entrada. */
+	checkpoint?: string;
+	/** Quando a entrada foi registrada (ou, com `coalesce`, alterada pela última vez), em milissegundos desde a época. */
+	timestamp?: number;
+}
+
+/**
+ * Os metadados de um estado do histórico. O estado inicial não vem de uma entrada, então guarda os seus à parte.
+ */
+export type HistoryState = Pick<HistoryPatch, "label" | "checkpoint" | "timestamp">;
+
+/**
+ * Métodos de array que alteram vários índices de uma vez e são registrados como uma única entrada do histórico.
+ */
+const ARRAY_MUTATORS = new Set<PropertyKey>(["push", "pop", "shift", "unshift", "splice", "sort", "reverse", "fill", "copyWithin"]);
+
+const clone = <V>(value: V): V => (value === undefined ? value : deepClone(value));
+
+const isObject = (value: unknown): value is object => typeof value === "object" && value !== null;
+
+const isIndex = (key: PropertyKey) => typeof key === "string" && /^(0|[1-9]\d*)$/.test(key);
+
+const toPointer = (path: PropertyKey[]): string => {
+	return path.map((key) => "/" + String(key).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+};
+
+const fromPointer = (pointer: string): string[] => {
+	if (pointer === "") return [];
+	return pointer
+		.slice(1)
+		.split("/")
+		.map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+/**
+ * O valor em `keys` a partir de `root`, ou `undefined` se o caminho não existir.
+ */
+const resolve = (root: any, keys: string[]): any => {
+	return keys.reduce((target, key) => (isObject(target) ? (target as any)[key] : undefined), root);
+};
+
+/**
+ * Os caminhos que `operations`, já aplicadas em `document`, alteraram: o de cada operação ou, quando ela insere ou remove um
+ * item de um array, o do array inteiro, já que os índices dos itens seguintes mudam.
+ */
+export const changedPaths = (document: unknown, operations: JsonPatchOperation[]): string[] => {
+	return operations.map(({ op, path }) => {
+		const keys = fromPointer(path);
+		if (op === "replace" || keys.length === 0) return path;
+
+		keys.pop();
+		return Array.isArray(resolve(document, keys)) ? toPointer(keys) : path;
+	});
+};
+
+/**
+ * Indica se alguma operação de `patch` aponta para dentro de um dos caminhos de `paths`. Depois que esses caminhos mudam
+ * por fora do histórico, o que a operação altera pode não existir mais, ou estar em outra posição. Operações no próprio
+ * caminho (ou acima dele) continuam válidas, já que substituem o valor inteiro.
+ */
+export const touches = (patch: HistoryPatch, paths: string[]): boolean => {
+	return [...patch.forward, ...patch.inverse].some((operation) => paths.some((path) => operation.path.startsWith(path + "/")));
+};
+
+/**
+ * Aplica as operações em `document`, alterando-o, e retorna o documento resultante (um novo objeto se a raiz for substituída).
+ * Os valores das operações são clonados, então o patch pode ser reaplicado. Operações cujo caminho não existe no documento
+ * são ignoradas.
+ */
+export const applyPatch = <T>(document: T, operations: JsonPatchOperation[]): T => {
+	let root: any = document;
+
+	for (const operation of operations) {
+		const keys = fromPointer(operation.path);
+
+		if (keys.length === 0) {
+			root = operation.op === "remove" ? undefined : clone(operation.value);
+			continue;
+		}
+
+		const key = keys.pop() as string;
+		const parent = resolve(root, keys);
+
+		if (typeof parent !== "object" || parent === null) continue;
+
+		if (Array.isArray(parent)) {
+			const index = key === "-" ? parent.length : Number(key);
+
+			if (operation.op === "add") parent.splice(index, 0, clone(operation.value));
+			else if (operation.op === "remove") parent.splice(index, 1);
+			else parent[index] = clone(operation.value);
+		} else if (operation.op === "remove") {
+			delete parent[key];
+		} else {
+			parent[key] = clone(operation.value);
+		}
+	}
+
+	return root;
+};
+
+/**
+ * Acumula as operações das mudanças em um documento observado e as entrega como uma entrada do histórico.
+ *
+ * Cada mudança fora de `batch` vira uma entrada; as feitas dentro de `batch` (inclusive aninhados) são agrupadas em uma só,
+ * com o rótulo do primeiro `batch` que o definir.
+ */
+export class PatchRecorder {
+	private depth = 0;
+	private label?: string;
+	private forward: JsonPatchOperation[] = [];
+	private inverse: JsonPatchOperation[] = [];
+
+	constructor(private commit: (patch: HistoryPatch) => void) {}
+
+	batch<R>(callback: () => R, label?: string): R {
+		this.label ??= label;
+		this.depth++;
+
+		try {
+			return callback();
+		} finally {
+			this.depth--;
+			if (this.depth === 0) this.flush();
+		}
+	}
+
+	record(forward: JsonPatchOperation[], inverse: JsonPatchOperation[]) {
+		this.forward.push(...forward);
+		this.inverse.unshift(...inverse);
+		if (this.depth === 0) this.flush();
+	}
+
+	private flush() {
+		const patch: HistoryPatch = { forward: this.forward, inverse: this.inverse };
+		if (this.label !== undefined) patch.label = this.label;
+
+		this.forward = [];
+		this.inverse = [];
+		this.label = undefined;
+
+		if (patch.forward.length > 0) this.commit(patch);
+	}
+}
+
+/**
+ * Observa um documento com proxies profundos que registram em `recorder` cada mudança como operações de JSON Patch, com a
+ * operação inversa calculada a partir do valor anterior. Apenas a parte alterada do documento é clonada.
+ *
+ * Cada objeto do documento tem um único proxy, então `data.items === data.items`. O caminho de uma mudança é calculado
+ * quando ela acontece, a partir do objeto alterado até a raiz, então um proxy guardado continua correto depois que o
+ * objeto muda de posição (como em `shift` ou `splice` no array pai). Mudanças em objetos que saíram do documento não são
+ * registradas.
+ */
+export class DocumentObserver {
+	private root: object | null = null;
+	private proxies = new WeakMap<object, any>();
+	private targets = new WeakMap<object, object>();
+	private parents = new WeakMap<object, object>();
+	private moving = new Set<object>();
+
+	constructor(private recorder: PatchRecorder) {}
+
+	/**
+	 * Passa a observar `root` como a raiz do documento e retorna seu proxy. Proxies da raiz anterior deixam de registrar mudanças.
+	 */
+	observe<T extends object>(root: T): T {
+		this.root = root;
+		return this.proxy(root);
+	}
+
+	private proxy<T extends object>(target: T): T {
+		let proxy = this.proxies.get(target);
+
+		if (!proxy) {
+			proxy = new Proxy(target, this.handler());
+			this.proxies.set(target, proxy);
+			this.targets.set(proxy, target);
+		}
+
+		return proxy;
+	}
+
+	private pathOf(target: object): PropertyKey[] | null {
+		const path: PropertyKey[] = [];
+		let current = target;
+
+		while (current !== this.root) {
+			const parent: any = this.parents.get(current);
+			if (!parent) return null;
+
+			const key = Array.isArray(parent) ? parent.indexOf(current) : Object.keys(parent).find((key) => parent[key] === current);
+			if (key === undefined || key === -1) return null;
+
+			path.unshift(key);
+			current = parent;
+		}
+
+		return path;
+	}
+
+	/**
+	 * O valor guardado no documento: objetos são clonados, exceto os que mudam de posição dentro do mesmo array durante um
+	 * método como `splice`, que mantêm a identidade (e o proxy).
+	 */
+	private store(target: object, value: any) {
+		const raw = isObject(value) ? this.targets.get(value) : undefined;
+		return raw && this.moving.has(target) && this.parents.get(raw) === target ? raw : clone(value);
+	}
+
+	private handler(): ProxyHandler<any> {
+		const observer = this;
+		const recorder = this.recorder;
+
+		const replaceWhole = (array: any[], change: () => void) => {
+			const path = observer.pathOf(array);
+			const before = path && clone(array);
+			change();
+
+			if (path) recorder.record([{ op: "replace", path: toPointer(path), value: clone(array) }], [{ op: "replace", path: toPointer(path), value: before }]);
+		};
+
+		return {
+			get(target, key, receiver) {
+				const value = target[key];
+
+				if (Array.isArray(target) && typeof value === "function" && ARRAY_MUTATORS.has(key)) {
+					return (...args: any[]) =>
+						recorder.batch(() => {
+							observer.moving.add(target);
+
+							try {
+								return value.apply(receiver, args);
+							} finally {
+								observer.moving.delete(target);
+							}
+						});
+				}
+
+				if (!isObject(value)) return value;
+
+				observer.parents.set(value, target);
+				return observer.proxy(value);
+			},
+			set(target, key, value) {
+				if (typeof key === "symbol") {
+					target[key] = value;
+					return true;
+				}
+
+				const exists = Object.prototype.hasOwnProperty.call(target, key);
+				const previous = target[key];
+
+				if (exists && (Object.is(previous, value) || (isObject(previous) && observer.targets.get(value) === previous))) return true;
+
+				if (Array.isArray(target) && key === "length") {
+					if (value >= target.length) {
+						replaceWhole(target, () => (target.length = value));
+						return true;
+					}
+
+					const path = observer.pathOf(target);
+					const forward: JsonPatchOperation[] = [];
+					const inverse: JsonPatchOperation[] = [];
+
+					for (let index = target.length - 1; path && index >= value; index--) {
+						forward.push({ op: "remove", path: toPointer([...path, index]) });
+						inverse.unshift({ op: "add", path: toPointer([...path, index]), value: clone(target[index]) });
+					}
+
+					target.length = value;
+					if (path) recorder.record(forward, inverse);
+					return true;
+				}
+
+				if (Array.isArray(target) && isIndex(key) && Number(key) > target.length) {
+					replaceWhole(target, () => Reflect.set(target, key, clone(value)));
+					return true;
+				}
+
+				const path = observer.pathOf(target);
+				target[key] = observer.store(target, value);
+
+				if (path) {
+					const pointer = toPointer([...path, key]);
+
+					recorder.record(
+						[{ op: exists ? "replace" : "add", path: pointer, value: clone(value) }],
+						[exists ? { op: "replace", path: pointer, value: clone(previous) } : { op: "remove", path: pointer }],
+					);
+				}
+
+				return true;
+			},
+			deleteProperty(target, key) {
+				if (typeof key === "symbol" || !Object.prototype.hasOwnProperty.call(target, key)) {
+					return delete target[key];
+				}
+
+				if (Array.isArray(target)) {
+					replaceWhole(target, () => Reflect.deleteProperty(target, key));
+					return true;
+				}
+
+				const path = observer.pathOf(target);
+				const previous = target[key];
+				delete target[key];
+
+				if (path) {
+					const pointer = toPointer([...path, key]);
+					recorder.record([{ op: "remove", path: pointer }], [{ op: "add", path: pointer, value: clone(previous) }]);
+				}
+
+				return true;
+			},
+		};
+	}
+}
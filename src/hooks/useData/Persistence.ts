@@ -0,0 +1,153 @@
+import type { HistoryPatch, HistoryState, JsonPatchOperation } from "./Patch";
+
+/**
+ * Armazenamento usado por `persist`. `window.localStorage` e `window.sessionStorage` já seguem esta interface; adaptadores
+ * assíncronos (como `createIndexedDBStorage`) podem retornar promessas.
+ */
+export interface DataStorage {
+	getItem(key: string): string | null | Promise<string | null>;
+	setItem(key: string, value: string): void | Promise<void>;
+}
+
+export interface DataPersistOptions<T> {
+	/** Onde os dados são salvos. */
+	storage: DataStorage;
+	/** Chave dos dados no armazenamento. Padrão: o `context` de `useData`. */
+	key?: string;
+	/** Se `true`, o histórico de desfazer/refazer também é salvo e restaurado. Padrão `false`. */
+	history?: boolean;
+	/** Versão do formato dos dados. Padrão `1`. */
+	version?: number;
+	/**
+	 * Converte dados salvos com outra versão para o formato atual. Se omitida, dados de outra versão são descartados.
+	 * O histórico salvo com outra versão é descartado, já que seus patches se referem ao formato antigo.
+	 */
+	migrate?: (old: any, fromVersion: number) => T;
+}
+
+export interface DataSnapshot<T> {
+	/** O documento atual. */
+	data: T;
+	/** As entradas do histórico, da mais antiga para a mais recente. */
+	patches: HistoryPatch[];
+	/** Quantas entradas de `patches` estão aplicadas em `data`; as seguintes podem ser refeitas. */
+	currentIndex: number;
+	/** Os metadados do estado anterior à primeira entrada. */
+	base?: HistoryState;
+}
+
+interface PersistedData<T> {
+	version: number;
+	data: T;
+	history?: Omit<DataSnapshot<T>, "data">;
+}
+
+/**
+ * Devolve `value` às operações `add` e `replace` que o perderam no JSON, onde um `value: undefined` é omitido.
+ */
+const restoreOperations = (operations: JsonPatchOperation[]): JsonPatchOperation[] => {
+	return operations.map((operation) => (operation.op !== "remove" && !("value" in operation) ? { ...(operation as JsonPatchOperation), value: undefined } : operation));
+};
+
+const parse = <T>(raw: string | null, options: DataPersistOptions<T>): DataSnapshot<T> | null => {
+	if (!raw) return null;
+
+	let stored: PersistedData<T>;
+
+	try {
+		stored = JSON.parse(raw);
+	} catch {
+		return null;
+	}
+
+	const version = options.version ?? 1;
+	const { history } = stored;
+
+	if (stored.version !== version) {
+		if (!options.migrate) return null;
+
+		try {
+			return { data: options.migrate(stored.data, stored.version), patches: [], currentIndex: 0 };
+		} catch {
+			return null;
+		}
+	}
+
+	if (options.history && history && Array.isArray(history.patches) && history.currentIndex >= 0 && history.currentIndex <= history.patches.length) {
+		const patches = history.patches.map((patch) => ({ ...patch, forward: restoreOperations(patch.forward), inverse: restoreOperations(patch.inverse) }));
+		return { data: stored.data, patches, currentIndex: history.currentIndex, base: history.base };
+	}
+
+	return { data: stored.data, patches: [], currentIndex: 0 };
+};
+
+/**
+ * Lê os dados salvos em `options.storage`. Com um armazenamento síncrono, o resultado é retornado diretamente, para que
+ * os dados sejam restaurados antes da primeira renderização; com um assíncrono, é retornada uma promessa.
+ */
+export const loadData = <T>(key: string, options: DataPersistOptions<T>): DataSnapshot<T> | null | Promise<DataSnapshot<T> | null> => {
+	const raw = options.storage.getItem(key);
+
+	if (raw instanceof Promise) {
+		return raw.then((value) => parse(value, options)).catch(() => null);
+	}
+
+	return parse(raw, options);
+};
+
+export const saveData = <T>(key: string, options: DataPersistOptions<T>, snapshot: DataSnapshot<T>) => {
+	const stored: PersistedData<T> = {
+		version: options.version ?? 1,
+		data: snapshot.data,
+		history: options.history ? { patches: snapshot.patches, currentIndex: snapshot.currentIndex, base: snapshot.base } : undefined,
+	};
+
+	const result = options.storage.setItem(key, JSON.stringify(stored));
+	if (result instanceof Promise) result.catch(() => {});
+};
+
+const request = <T>(request: IDBRequest<T>) => {
+	return new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+};
+
+/**
+ * Cria um armazenamento assíncrono para `persist` sobre o IndexedDB, útil para documentos maiores que o limite do `localStorage`.
+ *
+ * @param {string} [name="react-use"] O nome do banco de dados.
+ * @param {string} [store="data"] O nome do object store.
+ * @returns {DataStorage} O armazenamento.
+ *
+ * @example
+ * ```ts
+ * const storage = createIndexedDBStorage('editor');
+ * const { data } = useData({ shapes: [] }, 'drawing', { persist: { storage, history: true } });
+ * ```
+ */
+export const createIndexedDBStorage = (name: string = "react-use", store: string = "data"): DataStorage => {
+	let database: Promise<IDBDatabase> | null = null;
+
+	const open = () => {
+		if (!database) {
+			const opening = indexedDB.open(name, 1);
+			opening.onupgradeneeded = () => opening.result.createObjectStore(store);
+			database = request(opening);
+		}
+
+		return database;
+	};
+
+	return {
+		async getItem(key) {
+			const db = await open();
+			const value = await request(db.transaction(store, "readonly").objectStore(store).get(key));
+			return typeof value === "string" ? value : null;
+		},
+		async setItem(key, value) {
+			const db = await open();
+			await request(db.transaction(store, "readwrite").objectStore(store).put(value, key));
+		},
+	};
+};
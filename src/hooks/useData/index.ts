@@ -1,5 +1,12 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { deepClone, deepObservable, EventEmitter, uuidv4 } from "@ismael1361/utils";
+import { deepClone, EventEmitter, uuidv4 } from "@ismael1361/utils";
+import { applyPatch, changedPaths, DocumentObserver, HistoryPatch, HistoryState, JsonPatchOperation, PatchRecorder, touches } from "./Patch";
+import { DataPersistOptions, DataSnapshot, loadData, saveData } from "./Persistence";
+
+export { applyPatch } from "./Patch";
+export type { HistoryPatch, JsonPatchOperation } from "./Patch";
+export { createIndexedDBStorage } from "./Persistence";
+export type { DataPersistOptions, DataStorage } from "./Persistence";
 
 const events = new EventEmitter<{
 	[k: PropertyKey]: [];
@@ -7,46 +14,258 @@ const events = new EventEmitter<{
 
 const cache: Map<string, HistoryData> = new Map();
 
-class HistoryData<T = any> {
-	historical: T[];
+type HistoryOptions = Pick<DataOptions<any>, "maxHistory" | "coalesce">;
+
+export interface TransactionOptions {
+	/** Um rótulo para a entrada do histórico, como `"Mover forma"`. */
+	label?: string;
+}
+
+/**
+ * O histórico de um contexto, como visto por `useDataSelector`.
+ */
+export interface DataHistoryView {
+	/** Os estados do histórico, como em `useData`. */
+	history: DataHistoryEntry[];
+	/** O `index` do estado atual. */
+	historyIndex: number;
+	/** O número de estados. */
+	length: number;
+}
+
+/**
+ * Um estado do histórico, como listado em `history`.
+ */
+export interface DataHistoryEntry {
+	/** A posição do estado, usada por `goTo`. `0` é o estado mais antigo mantido. */
+	index: number;
+	/** O nome dado por `checkpoint` ou, se não houver, o rótulo da transação que gerou o estado. */
+	label?: string;
+	/** `true` se `label` foi dado por `checkpoint`. */
+	checkpoint: boolean;
+	/** Quando o estado foi criado, em milissegundos desde a época. */
+	timestamp: number;
+	/** `true` se este é o estado atual. Os estados depois dele podem ser refeitos. */
+	current: boolean;
+}
+
+class HistoryData<T extends object = any> {
+	patches: HistoryPatch[] = [];
 	currentContext: T;
-	currentIndex: number;
+	currentIndex: number = 0;
 
-	constructor(private initialData: T) {
-		this.historical = [deepClone(initialData)];
-		this.currentContext = this.createContext(initialData);
-		this.currentIndex = 0;
-	}
+	/**
+	 * `false` enquanto os dados salvos em um armazenamento assíncrono ainda estão sendo carregados.
+	 */
+	hydrated: boolean = true;
 
-	private createContext(target: T) {
-		const data = deepClone(target);
-		return deepObservable(data, (e) => {
-			this.push(data);
-		});
+	/**
+	 * `true` entre `pause` e `resume`: as mudanças são aplicadas, mas não entram no histórico.
+	 */
+	paused: boolean = false;
+
+	/**
+	 * Onde as mudanças são salvas, definido pelo `useData` que criou o contexto com `persist`.
+	 */
+	persist: { key: string; options: DataPersistOptions<T> } | null = null;
+
+	private document: T;
+	private recorder = new PatchRecorder((patch) => this.commit(patch));
+	private observer = new DocumentObserver(this.recorder);
+	private events = new EventEmitter<{ change: [] }>();
+	private lastCommit = -Infinity;
+	private base: HistoryState = { timestamp: Date.now() };
+	private subscribers = 0;
+	private saving: { stop(): void } | null = null;
+
+	constructor(
+		private initialData: T,
+		private options: HistoryOptions = {},
+	) {
+		this.document = deepClone(initialData);
+		this.currentContext = this.observer.observe(this.document);
 	}
 
-	push(data: T) {
-		if (JSON.stringify(this.historical[this.currentIndex]) === JSON.stringify(data)) {
+	private commit(patch: HistoryPatch) {
+		if (this.paused) {
+			// As entradas refeitas seriam aplicadas sobre um documento que já não é o que elas desfizeram.
+			this.patches = this.patches.slice(0, this.currentIndex);
+
+			// Da mesma forma, as entradas que alteram algo dentro dos caminhos alterados já não podem ser desfeitas, nem as anteriores a elas.
+			const paths = changedPaths(this.document, patch.forward);
+			let stale = this.patches.length - 1;
+			while (stale >= 0 && !touches(this.patches[stale], paths)) stale--;
+			this.drop(stale + 1);
+
+			this.events.emit("change");
 			return;
 		}
-		this.historical = this.historical.slice(0, this.currentIndex + 1);
-		this.historical.push(deepClone(data));
-		this.currentContext = this.createContext(data);
-		this.currentIndex++;
+
+		const now = Date.now();
+		const last = this.patches[this.currentIndex - 1];
+		const coalesce = this.options.coalesce ?? 0;
+
+		if (last && this.currentIndex === this.patches.length && now - this.lastCommit < coalesce && last.label === undefined && patch.label === undefined) {
+			last.forward.push(...patch.forward);
+			last.inverse.unshift(...patch.inverse);
+			last.timestamp = now;
+		} else {
+			patch.timestamp = now;
+			this.patches = this.patches.slice(0, this.currentIndex);
+			this.patches.push(patch);
+			this.currentIndex++;
+
+			const maxHistory = this.options.maxHistory ?? Infinity;
+			this.drop(this.patches.length - maxHistory);
+		}
+
+		this.lastCommit = now;
+		this.events.emit("change");
 	}
 
-	undo() {
-		if (this.currentIndex > 0) {
+	/**
+	 * Descarta as `count` entradas mais antigas; o estado resultante delas passa a ser o estado inicial do histórico.
+	 * Só é chamado com todas as entradas aplicadas.
+	 */
+	private drop(count: number) {
+		if (count <= 0) return;
+
+		const { label, checkpoint, timestamp } = this.patches.splice(0, count).pop()!;
+		this.base = { label, checkpoint, timestamp };
+		this.currentIndex = this.patches.length;
+	}
+
+	/**
+	 * Executa `callback` agrupando todas as mudanças feitas nele em uma única entrada do histórico.
+	 */
+	transaction<R>(callback: () => R, options: TransactionOptions = {}): R {
+		return this.recorder.batch(callback, options.label);
+	}
+
+	pause() {
+		this.paused = true;
+	}
+
+	resume() {
+		this.paused = false;
+		this.lastCommit = -Infinity;
+	}
+
+	private apply(operations: JsonPatchOperation[]) {
+		const document = applyPatch(this.document, operations);
+
+		if (document !== this.document) {
+			this.document = document;
+			this.currentContext = this.observer.observe(document);
+		}
+	}
+
+	push(data: T) {
+		const forward: JsonPatchOperation[] = [{ op: "replace", path: "", value: deepClone(data) }];
+		const inverse: JsonPatchOperation[] = [{ op: "replace", path: "", value: deepClone(this.document) }];
+
+		// Aplicado antes de registrar, para que quem observa `change` já encontre os novos dados.
+		this.apply(forward);
+		this.recorder.record(forward, inverse);
+	}
+
+	/**
+	 * Vai para o estado `index` do histórico, desfazendo ou refazendo as entradas no caminho. As entradas seguintes
+	 * continuam disponíveis para `redo` até a próxima mudança.
+	 */
+	goTo(index: number) {
+		index = Math.max(0, Math.min(this.patches.length, index));
+		if (index === this.currentIndex) return;
+
+		while (this.currentIndex > index) {
 			this.currentIndex--;
-			this.currentContext = this.createContext(this.historical[this.currentIndex]);
+			this.apply(this.patches[this.currentIndex].inverse);
 		}
+
+		while (this.currentIndex < index) {
+			this.apply(this.patches[this.currentIndex].forward);
+			this.currentIndex++;
+		}
+
+		this.lastCommit = -Infinity;
+		this.events.emit("change");
+	}
+
+	undo() {
+		this.goTo(this.currentIndex - 1);
 	}
 
 	redo() {
-		if (this.currentIndex < this.historical.length - 1) {
-			this.currentIndex++;
-			this.currentContext = this.createContext(this.historical[this.currentIndex]);
+		this.goTo(this.currentIndex + 1);
+	}
+
+	/**
+	 * Dá o nome `label` ao estado atual. Mudanças seguintes nunca são juntadas (`coalesce`) a ele.
+	 */
+	checkpoint(label: string) {
+		const state = this.currentIndex > 0 ? this.patches[this.currentIndex - 1] : this.base;
+		state.checkpoint = label;
+		this.lastCommit = -Infinity;
+		this.events.emit("change");
+	}
+
+	/**
+	 * Vai para o estado mais recente chamado `label`, por `checkpoint` ou pelo rótulo de uma transação. Retorna `false` se não houver.
+	 */
+	revertTo(label: string): boolean {
+		const index = this.entries.map((entry) => entry.label).lastIndexOf(label);
+		if (index < 0) return false;
+
+		this.goTo(index);
+		return true;
+	}
+
+	get entries(): DataHistoryEntry[] {
+		return [this.base, ...this.patches].map((state, index) => ({
+			index,
+			label: state.checkpoint ?? state.label,
+			checkpoint: state.checkpoint !== undefined,
+			timestamp: state.timestamp ?? this.base.timestamp ?? 0,
+			current: index === this.currentIndex,
+		}));
+	}
+
+	/**
+	 * Substitui o documento e o histórico pelos de `snapshot`, sem notificar `onChange`.
+	 */
+	restore(snapshot: DataSnapshot<T>) {
+		this.document = deepClone(snapshot.data);
+		this.currentContext = this.observer.observe(this.document);
+		this.patches = snapshot.patches;
+		this.currentIndex = snapshot.currentIndex;
+		this.base = snapshot.base ?? { timestamp: Date.now() };
+	}
+
+	get snapshot(): DataSnapshot<T> {
+		return { data: this.document, patches: this.patches, currentIndex: this.currentIndex, base: this.base };
+	}
+
+	/**
+	 * Registra um `useData` montado no contexto e retorna a função que o remove. As mudanças são salvas em `persist`
+	 * enquanto houver algum, e não apenas enquanto o que criou o contexto estiver montado.
+	 */
+	retain() {
+		if (this.subscribers++ === 0 && this.persist) {
+			this.saving = persistHistory(this, this.persist.key, this.persist.options);
 		}
+
+		return () => {
+			if (--this.subscribers > 0) return;
+			this.saving?.stop();
+			this.saving = null;
+		};
+	}
+
+	/**
+	 * Observa as mudanças do histórico: novas entradas, navegação (`undo`, `redo`, `goTo`), `checkpoint` e `clear`.
+	 */
+	onChange(callback: () => void) {
+		return this.events.on("change", callback);
 	}
 
 	get data(): T {
@@ -62,16 +281,31 @@ class HistoryData<T = any> {
 	}
 
 	get canRedo() {
-		return this.currentIndex < this.historical.length - 1;
+		return this.currentIndex < this.patches.length;
 	}
 
 	get length() {
-		return this.historical.length;
+		return this.patches.length + 1;
 	}
 
-	clear(initialData?: T) {
-		this.historical = [initialData ?? this.initialData];
+	/**
+	 * Apaga o histórico, mantendo os dados atuais.
+	 */
+	clear() {
+		this.patches = [];
 		this.currentIndex = 0;
+		this.lastCommit = -Infinity;
+		this.base = { timestamp: Date.now() };
+		this.events.emit("change");
+	}
+
+	/**
+	 * Volta os dados para `initialData` e apaga o histórico.
+	 */
+	reset() {
+		this.document = deepClone(this.initialData);
+		this.currentContext = this.observer.observe(this.document);
+		this.clear();
 	}
 }
 
@@ -82,17 +316,162 @@ interface DataProps<T> {
 	redo(): void;
 	canUndo: boolean;
 	canRedo: boolean;
+	/** Apaga o histórico de desfazer/refazer, mantendo os dados atuais. */
 	clear(): void;
+	/** Volta os dados para `initialData` e apaga o histórico. */
+	reset(): void;
+	/**
+	 * Executa `callback` e registra todas as mudanças feitas nele como uma única entrada do histórico, desfeita por um só `undo`.
+	 * Retorna o valor de `callback`.
+	 */
+	transaction<R>(callback: () => R, options?: TransactionOptions): R;
+	/**
+	 * Suspende o registro do histórico: as mudanças seguintes são aplicadas, mas não podem ser desfeitas. Elas descartam as
+	 * entradas que alteram algo dentro dos dados mudados (e as anteriores a elas), que já não poderiam ser desfeitas.
+	 */
+	pause(): void;
+	/** Retoma o registro do histórico após `pause`. */
+	resume(): void;
+	/** `true` entre `pause` e `resume`. */
+	paused: boolean;
+	/**
+	 * As entradas do histórico, da mais antiga para a mais recente, cada uma com as operações de JSON Patch (RFC 6902) que
+	 * aplicam (`forward`) e desfazem (`inverse`) a mudança. As primeiras `historyIndex` estão aplicadas.
+	 */
+	patches: HistoryPatch[];
+	/** Quantas entradas de `patches` estão aplicadas; as seguintes podem ser refeitas. É também o `index` do estado atual em `history`. */
+	historyIndex: number;
+	/**
+	 * Os estados do histórico, do mais antigo para o mais recente, com rótulo e data, para montar um painel de histórico.
+	 */
+	history: DataHistoryEntry[];
+	/** O número de estados em `history`. */
+	length: number;
+	/** Dá o nome `label` ao estado atual, para voltar a ele com `revertTo`. */
+	checkpoint(label: string): void;
+	/** Vai para o estado `index` de `history`. Os estados seguintes continuam disponíveis para `redo`. */
+	goTo(index: number): void;
+	/**
+	 * Vai para o estado mais recente chamado `label`, por `checkpoint` ou pelo rótulo de uma transação. Retorna `false` se não houver.
+	 */
+	revertTo(label: string): boolean;
+	/**
+	 * `false` enquanto os dados de `persist` são carregados de um armazenamento assíncrono. Com um armazenamento síncrono,
+	 * como o `localStorage`, é sempre `true`.
+	 */
+	hydrated: boolean;
+}
+
+export interface DataOptions<T> {
+	/**
+	 * Quantas entradas o histórico mantém; as mais antigas são descartadas. Padrão: sem limite.
+	 */
+	maxHistory?: number;
+	/**
+	 * Junta em uma só entrada as mudanças feitas a menos de `coalesce` milissegundos da anterior, como as de um arraste ou
+	 * da digitação. Transações com `label` nunca são juntadas. Padrão `0` (cada mudança é uma entrada).
+	 */
+	coalesce?: number;
+	/**
+	 * Salva os dados (e, opcionalmente, o histórico) em um armazenamento e os restaura na montagem.
+	 */
+	persist?: DataPersistOptions<T>;
 }
 
+const isObject = (value: unknown): value is Record<PropertyKey, any> => typeof value === "object" && value !== null;
+
+/**
+ * O histórico de um contexto como visto por `selector`, lido apenas quando acessado.
+ */
+const viewOf = (history?: HistoryData): DataHistoryView => ({
+	get history() {
+		return history?.entries ?? [];
+	},
+	get historyIndex() {
+		return history?.currentIndex ?? 0;
+	},
+	get length() {
+		return history?.length ?? 1;
+	},
+});
+
+/**
+ * Uma cópia de `value` para comparar com seleções futuras, já que os dados de `useData` são alterados no lugar.
+ */
+const snapshot = <V>(value: V): V => (isObject(value) ? deepClone(value) : value);
+
+/**
+ * Compara dois valores estruturalmente, como os dados de `useData`, que são alterados no lugar.
+ */
+const isEqual = (a: any, b: any): boolean => {
+	if (Object.is(a, b)) return true;
+	if (!isObject(a) || !isObject(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+
+	const keys = Object.keys(a);
+	return keys.length === Object.keys(b).length && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]));
+};
+
+/**
+ * Observa todas as mudanças de um contexto: as do histórico (mutações, `undo`, `redo`, `clear`) e os carregamentos de `persist`.
+ */
+const subscribe = (contextId: string, callback: () => void) => {
+	let history: { stop(): void } | null = null;
+
+	const attach = () => {
+		if (!history && cache.has(contextId)) history = cache.get(contextId)!.onChange(callback);
+	};
+
+	attach();
+
+	const e = events.on(contextId, () => {
+		attach();
+		callback();
+	});
+
+	return () => {
+		history?.stop();
+		e.stop();
+	};
+};
+
+/**
+ * Salva o histórico em `options.storage` após cada mudança. Várias mudanças na mesma tarefa (como mutações seguidas do
+ * objeto de dados) resultam em uma única escrita.
+ */
+const persistHistory = <T extends object>(history: HistoryData<T>, key: string, options: DataPersistOptions<T>) => {
+	let scheduled = false;
+
+	return history.onChange(() => {
+		if (scheduled) return;
+		scheduled = true;
+
+		queueMicrotask(() => {
+			scheduled = false;
+			saveData(key, options, history.snapshot);
+		});
+	});
+};
+
 /**
  * Um hook React para gerenciamento de estado com histórico (undo/redo) e compartilhamento de contexto.
  * Ele retorna um objeto de dados reativo que pode ser mutado diretamente, com as alterações sendo
  * salvas automaticamente no histórico.
  *
+ * O histórico guarda, para cada mudança, as operações de JSON Patch (RFC 6902) que a aplicam e a desfazem, em vez de uma
+ * cópia do documento inteiro; elas ficam disponíveis em `patches`. `options.maxHistory` limita o número de entradas.
+ * Várias mudanças podem virar uma só entrada com `transaction` ou com `options.coalesce`, e `pause`/`resume` suspendem o registro.
+ * `history` lista os estados com rótulo e data; `checkpoint` nomeia o estado atual, e `goTo`/`revertTo` saltam para qualquer um.
+ *
+ * Com `options.persist`, os dados (e, com `history: true`, o histórico) são salvos em um armazenamento após cada mudança,
+ * enquanto algum `useData` do contexto estiver montado, e restaurados na montagem: antes da primeira renderização com um armazenamento síncrono (`localStorage`,
+ * `sessionStorage`) ou assim que forem carregados com um assíncrono (`createIndexedDBStorage` ou um adaptador próprio),
+ * com `hydrated` igual a `false` até lá. Mudanças feitas antes do carregamento são substituídas pelos dados salvos.
+ * `version` e `migrate` convertem dados salvos com um formato anterior.
+ *
  * @template T O tipo do objeto de estado.
  * @param {T} initialData O objeto de estado inicial.
  * @param {string} [context=uuidv4()] Uma chave de string opcional para o contexto. Componentes que usam a mesma chave de contexto compartilharão o mesmo estado e histórico. Se não for fornecido, um ID único é gerado, isolando o estado.
+ * @param {DataOptions<T>} [options={}] Opções adicionais, como o limite do histórico (`maxHistory`), a junção de mudanças rápidas (`coalesce`) e a persistência (`persist`). Sem `persist.key`, o `context` é usado como chave, então defina um dos dois.
  * @returns {DataProps<T>} Um objeto contendo o estado reativo e as funções de controle de histórico.
  *
  * @example
@@ -126,18 +505,103 @@ interface DataProps<T> {
  *   );
  * }
  * ```
+ *
+ * @example
+ * ```jsx
+ * // Documento salvo no localStorage, com o histórico de desfazer/refazer
+ * const Editor = () => {
+ *   const { data, undo } = useData({ title: '', tags: [] }, 'editor', {
+ *     persist: {
+ *       storage: window.localStorage,
+ *       history: true,
+ *       version: 2,
+ *       // Na versão 1, `tags` era uma string separada por vírgulas
+ *       migrate: (old, fromVersion) => (fromVersion < 2 ? { ...old, tags: old.tags.split(',') } : old),
+ *     },
+ *   });
+ *
+ *   return <input value={data.title} onChange={(e) => (data.title = e.target.value)} />;
+ * };
+ * ```
+ *
+ * @example
+ * ```jsx
+ * // x e y mudam juntos, e os eventos seguidos de um arraste viram um único passo de desfazer
+ * const Shape = ({ index }) => {
+ *   const { data, transaction } = useData({ shapes: [] }, 'drawing', { coalesce: 250 });
+ *   const shape = data.shapes[index];
+ *
+ *   const onDrag = (dx, dy) => {
+ *     transaction(() => {
+ *       shape.x += dx;
+ *       shape.y += dy;
+ *     });
+ *   };
+ *
+ *   const remove = () => transaction(() => data.shapes.splice(index, 1), { label: 'Remover forma' });
+ *
+ *   return <Draggable x={shape.x} y={shape.y} onDrag={onDrag} onDoubleClick={remove} />;
+ * };
+ * ```
+ *
+ * @example
+ * ```jsx
+ * // Painel de histórico, atualizado também a cada edição
+ * const HistoryPanel = () => {
+ *   const { goTo, checkpoint } = useData({ shapes: [] }, 'drawing');
+ *   const history = useDataSelector('drawing', (data, { history }) => history);
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => checkpoint(`Versão ${history.length}`)}>Salvar versão</button>
+ *       <ol>
+ *         {history.map((entry) => (
+ *           <li key={entry.index} onClick={() => goTo(entry.index)}>
+ *             {entry.current ? '▶ ' : ''}
+ *             {entry.label ?? 'Edição'} ({new Date(entry.timestamp).toLocaleTimeString()})
+ *           </li>
+ *         ))}
+ *       </ol>
+ *     </div>
+ *   );
+ * };
+ * ```
  */
-export const useData = <T extends object>(initialData: T, context: string = uuidv4()): DataProps<T> => {
+export const useData = <T extends object>(initialData: T, context: string = uuidv4(), options: DataOptions<T> = {}): DataProps<T> => {
 	const [contextId] = useState<string>(context);
+	const { persist, maxHistory, coalesce } = options;
+	const [stored] = useState(() => (persist && !cache.has(contextId) ? loadData(persist.key ?? contextId, persist) : null));
+	const restored = stored instanceof Promise ? null : stored;
+	const [owner] = useState(() => {
+		if (cache.has(contextId)) return false;
+
+		const history = new HistoryData(initialData, { maxHistory, coalesce });
+		if (restored) history.restore(restored);
+		history.hydrated = !(stored instanceof Promise);
+		if (persist) history.persist = { key: persist.key ?? contextId, options: persist };
+		cache.set(contextId, history);
+		return true;
+	});
 	const data = useRef<T>(cache.get(contextId)?.data ?? initialData);
 	const [id, setId] = useState<string>(uuidv4());
 
 	useEffect(() => {
-		if (cache.has(contextId)) {
-			data.current = cache.get(contextId)?.data ?? data.current;
+		const history = cache.get(contextId);
+		const release = history?.retain();
+
+		if (!owner) {
+			data.current = history?.data ?? data.current;
 			setId(uuidv4());
-		} else {
-			cache.set(contextId, new HistoryData(data.current));
+		} else if (history && stored instanceof Promise) {
+			stored
+				.then((snapshot) => {
+					if (snapshot) history.restore(snapshot);
+				})
+				.catch(() => {})
+				.then(() => {
+					history.hydrated = true;
+					events.emit(contextId);
+				});
 		}
 
 		const e = events.on(contextId, () => {
@@ -146,6 +610,7 @@ export const useData = <T extends object>(initialData: T, context: string = uuid
 		});
 
 		return () => {
+			release?.();
 			e.stop();
 		};
 	}, []);
@@ -168,12 +633,49 @@ export const useData = <T extends object>(initialData: T, context: string = uuid
 		events.emit(contextId);
 	}, []);
 
+	const goTo = useCallback((index: number) => {
+		cache.get(contextId)?.goTo(index);
+		data.current = cache.get(contextId)?.data ?? data.current;
+		events.emit(contextId);
+	}, []);
+
+	const revertTo = useCallback((label: string) => {
+		const reverted = cache.get(contextId)?.revertTo(label) ?? false;
+		data.current = cache.get(contextId)?.data ?? data.current;
+		if (reverted) events.emit(contextId);
+		return reverted;
+	}, []);
+
+	const checkpoint = useCallback((label: string) => {
+		cache.get(contextId)?.checkpoint(label);
+		events.emit(contextId);
+	}, []);
+
+	const transaction = useCallback(<R>(callback: () => R, options?: TransactionOptions): R => {
+		const history = cache.get(contextId);
+		return history ? history.transaction(callback, options) : callback();
+	}, []);
+
+	const pause = useCallback(() => {
+		cache.get(contextId)?.pause();
+	}, []);
+
+	const resume = useCallback(() => {
+		cache.get(contextId)?.resume();
+	}, []);
+
 	const clear = useCallback(() => {
 		cache.get(contextId)?.clear();
 		data.current = cache.get(contextId)?.data ?? data.current;
 		events.emit(contextId);
 	}, []);
 
+	const reset = useCallback(() => {
+		cache.get(contextId)?.reset();
+		data.current = cache.get(contextId)?.data ?? data.current;
+		events.emit(contextId);
+	}, []);
+
 	return useMemo(() => {
 		return {
 			get data() {
@@ -189,6 +691,113 @@ export const useData = <T extends object>(initialData: T, context: string = uuid
 				return cache.get(contextId)?.canRedo ?? false;
 			},
 			clear,
+			reset,
+			transaction,
+			pause,
+			resume,
+			get paused() {
+				return cache.get(contextId)?.paused ?? false;
+			},
+			get patches() {
+				return cache.get(contextId)?.patches ?? [];
+			},
+			get historyIndex() {
+				return cache.get(contextId)?.currentIndex ?? 0;
+			},
+			get history() {
+				return cache.get(contextId)?.entries ?? [];
+			},
+			get length() {
+				return cache.get(contextId)?.length ?? 1;
+			},
+			checkpoint,
+			goTo,
+			revertTo,
+			get hydrated() {
+				return cache.get(contextId)?.hydrated ?? true;
+			},
 		};
 	}, [id]);
 };
+
+/**
+ * Um hook React que lê uma parte dos dados de um contexto de `useData` e só renderiza o componente de novo quando essa parte
+ * muda, em vez de a cada mudança do contexto.
+ *
+ * Enquanto nenhum `useData` criou o contexto, `selector` recebe `initialData` (ou não é chamado e o hook retorna
+ * `undefined`, se ele for omitido). O valor retornado vem dos dados observáveis, então objetos selecionados podem ser
+ * alterados diretamente, com as mudanças registradas no histórico.
+ *
+ * A seleção é comparada com a anterior a cada mudança do contexto: valores primitivos com `Object.is` e objetos
+ * estruturalmente, com uma cópia tirada apenas quando a seleção muda.
+ *
+ * @template T O tipo do objeto de estado do contexto.
+ * @template S O tipo da parte selecionada.
+ * @param {string} context A chave do contexto, a mesma passada para `useData`.
+ * @param {(data: T, history: DataHistoryView) => S} selector Retorna a parte dos dados usada pelo componente. O segundo argumento dá acesso ao histórico (`history`, `historyIndex`, `length`), para componentes como um painel de histórico.
+ * @param {(previous: S, next: S) => boolean} [equalityFn] Diz se a seleção não mudou. `previous` é uma cópia da seleção anterior, já que os dados são alterados no lugar. Padrão: `Object.is` para valores primitivos e comparação estrutural para objetos.
+ * @param {T} [initialData] Os dados usados enquanto o contexto não existe, normalmente os mesmos passados para `useData`.
+ * @returns {S} A parte selecionada.
+ *
+ * @example
+ * ```jsx
+ * const TodoTitle = ({ index }) => {
+ *   // Só renderiza de novo quando o título deste item muda
+ *   const title = useDataSelector('todos', (data) => data.todos[index].title);
+ *   return <li>{title}</li>;
+ * };
+ *
+ * const TodoList = () => {
+ *   const { data } = useData({ todos: [] }, 'todos');
+ *   const count = useDataSelector('todos', (data) => data.todos.length);
+ *
+ *   return <ul>{Array.from({ length: count }, (_, index) => <TodoTitle key={index} index={index} />)}</ul>;
+ * };
+ * ```
+ */
+export const useDataSelector = <T extends object, S>(
+	context: string,
+	selector: (data: T, history: DataHistoryView) => S,
+	equalityFn: (previous: S, next: S) => boolean = isEqual,
+	initialData?: T,
+): S => {
+	const [, setVersion] = useState(0);
+	const history = cache.get(context);
+	const source = history?.data ?? initialData;
+	const selected = (source !== undefined ? selector(source, viewOf(history)) : undefined) as S;
+
+	const select = useRef(selector);
+	const equals = useRef(equalityFn);
+	const previous = useRef<{ value: S } | null>(null);
+
+	select.current = selector;
+	equals.current = equalityFn;
+
+	// Uma renderização do componente (com outro `selector`, por exemplo) também muda a seleção que ele mostra.
+	if (!previous.current || !equalityFn(previous.current.value, selected)) {
+		previous.current = { value: snapshot(selected) };
+	}
+
+	useEffect(() => {
+		const check = () => {
+			const history = cache.get(context);
+			if (!history || !previous.current) return;
+
+			try {
+				const next = select.current(history.data, viewOf(history));
+				if (equals.current(previous.current.value, next)) return;
+				previous.current = { value: snapshot(next) };
+			} catch {
+				// A seleção pode falhar com dados que o componente pai ainda vai remover; renderizar de novo decide.
+			}
+
+			setVersion((version) => version + 1);
+		};
+
+		const stop = subscribe(context, check);
+		check();
+		return stop;
+	}, [context]);
+
+	return selected;
+};
@@ -0,0 +1,57 @@
+import { SharedValue } from "@ismael1361/animation";
+import { renderHook, act } from "@testing-library/react";
+import { useDerivedValue } from "./index";
+
+describe("useDerivedValue", () => {
+	it("should recompute when a source changes", () => {
+		const width = new SharedValue(10);
+		const height = new SharedValue(5);
+		const listener = jest.fn();
+
+		const { result } = renderHook(() => useDerivedValue(() => width.value * height.value, [width, height]));
+		result.current.on("change", listener);
+
+		expect(result.current.value).toBe(50);
+
+		act(() => {
+			width.value = 20;
+		});
+
+		expect(result.current.value).toBe(100);
+
+		act(() => {
+			width.value = 20;
+		});
+
+		expect(result.current.value).toBe(100);
+		expect(listener).toHaveBeenCalledTimes(1);
+	});
+
+	it("should follow its sources when the list changes length", () => {
+		const a = new SharedValue(1);
+		const b = new SharedValue(2);
+
+		const { result, rerender } = renderHook(({ sources }) => useDerivedValue(() => sources.reduce((sum, source) => sum + source.value, 0), sources), {
+			initialProps: { sources: [a] },
+		});
+
+		expect(result.current.value).toBe(1);
+
+		rerender({ sources: [a, b] });
+		expect(result.current.value).toBe(3);
+
+		act(() => {
+			b.value = 10;
+		});
+
+		expect(result.current.value).toBe(11);
+
+		rerender({ sources: [b] });
+
+		act(() => {
+			a.value = 5;
+		});
+
+		expect(result.current.value).toBe(10);
+	});
+});
@@ -0,0 +1,60 @@
+import { SharedValue } from "@ismael1361/animation";
+import { useEffect, useMemo, useRef } from "react";
+
+/**
+ * Cria um `SharedValue` cujo valor é calculado a partir de outros `SharedValue`s e recalculado sempre que algum deles muda.
+ *
+ * O valor é recalculado de forma síncrona dentro do evento `change` das fontes, então ele pode ser usado por outras
+ * animações, por `useAnimatedStyle` ou como fonte de outro `useDerivedValue`. O evento `change` do valor derivado
+ * só é emitido quando o resultado muda (comparado com `Object.is`). Assim como em `useAnimatedStyle`, o componente não
+ * é re-renderizado quando o valor derivado muda.
+ *
+ * @template T O tipo do valor derivado.
+ * @param {() => T} compute A função que calcula o valor a partir dos valores atuais das fontes.
+ * @param {SharedValue<any>[]} sources Os `SharedValue`s dos quais o valor depende. Se os itens da lista mudarem (inclusive a quantidade), as inscrições são refeitas e o valor é recalculado; uma nova lista com os mesmos itens não tem efeito.
+ * @returns {SharedValue<T>} O `SharedValue` derivado. Atribuir a `.value` diretamente é possível, mas o valor será sobrescrito na próxima mudança das fontes.
+ *
+ * @example
+ * ```tsx
+ * import React, { useMemo, useRef } from 'react';
+ * import { SharedValue } from '@ismael1361/animation';
+ * import { useAnimatedStyle, useDerivedValue } from '@ismael1361/react-use';
+ *
+ * const Box = () => {
+ *   const ref = useRef<HTMLDivElement>(null);
+ *   const width = useMemo(() => new SharedValue(100), []);
+ *   const height = useMemo(() => new SharedValue(50), []);
+ *
+ *   const area = useDerivedValue(() => width.value * height.value, [width, height]);
+ *
+ *   useAnimatedStyle(ref, (area) => ({ '--area': area.value }), area);
+ *
+ *   return <div ref={ref} onClick={() => (width.value += 10)} />;
+ * };
+ * ```
+ */
+export const useDerivedValue = <T>(compute: () => T, sources: SharedValue<any>[]): SharedValue<T> => {
+	const callback = useRef(compute);
+	callback.current = compute;
+
+	const derived = useMemo(() => new SharedValue<T>(compute()), []);
+
+	const list = useRef(sources);
+	if (list.current.length !== sources.length || sources.some((source, index) => source !== list.current[index])) list.current = sources;
+	const current = list.current;
+
+	useEffect(() => {
+		const update = () => {
+			const next = callback.current();
+			if (!Object.is(next, derived.value)) derived.value = next;
+		};
+
+		update();
+
+		const events = current.map((source) => source.on("change", update));
+
+		return () => events.forEach((event) => event.stop());
+	}, [current]);
+
+	return derived;
+};
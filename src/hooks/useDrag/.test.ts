@@ -0,0 +1,42 @@
+import { renderHook, act } from "@testing-library/react";
+import { useDrag } from "./index";
+
+const pointer = (type: string, clientX: number, clientY: number) => new MouseEvent(type, { clientX, clientY, bubbles: true });
+
+describe("useDrag", () => {
+	it("should track the offset within bounds and run onRelease", () => {
+		const element = document.createElement("div");
+		const ref = { current: element };
+		const released = jest.fn();
+
+		const { result } = renderHook(() =>
+			useDrag(ref, {
+				axis: "x",
+				bounds: { left: 0, right: 100 },
+				onRelease: function* (state) {
+					released(state.offsetX.value, state.dragging.value);
+				},
+			}),
+		);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerdown", 10, 10));
+			element.dispatchEvent(pointer("pointermove", 60, 40));
+		});
+
+		expect(result.current.offsetX.value).toBe(50);
+		expect(result.current.offsetY.value).toBe(0);
+		expect(result.current.directionX.value).toBe(1);
+		expect(result.current.dragging.value).toBe(true);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointermove", 200, 40));
+			element.dispatchEvent(pointer("pointerup", 200, 40));
+		});
+
+		expect(result.current.offsetX.value).toBe(100);
+		expect(result.current.dragging.value).toBe(false);
+		expect(released).toHaveBeenCalledWith(100, false);
+		expect(element.style.touchAction).toBe("pan-y");
+	});
+});
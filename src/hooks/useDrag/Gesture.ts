@@ -0,0 +1,88 @@
+import { AnimationState, SharedValues } from "@ismael1361/animation";
+import { useCallback, useEffect, useRef } from "react";
+import { createAnimation } from "../useAnimation/createAnimation";
+import { AnimationFn } from "../useAnimation/ProcessProps";
+
+/**
+ * Janela, em milissegundos, das amostras usadas no cálculo da velocidade de um gesto.
+ */
+const VELOCITY_WINDOW = 100;
+
+/**
+ * Elasticidade usada quando `rubberband` é `true`.
+ */
+export const RUBBERBAND_FACTOR = 0.15;
+
+/**
+ * Calcula a velocidade (em unidades por segundo) de um ou mais valores a partir das amostras dos últimos `VELOCITY_WINDOW` milissegundos.
+ */
+export class VelocityTracker {
+	private samples: { time: number; values: number[] }[] = [];
+
+	push(time: number, ...values: number[]) {
+		this.samples.push({ time, values });
+		this.samples = this.samples.filter((sample) => time - sample.time <= VELOCITY_WINDOW);
+	}
+
+	velocity(time: number): number[] {
+		const samples = this.samples.filter((sample) => time - sample.time <= VELOCITY_WINDOW);
+		const first = samples[0];
+		const last = samples[samples.length - 1];
+
+		if (!first || last.time <= first.time) {
+			return last?.values.map(() => 0) ?? [];
+		}
+
+		return last.values.map((value, index) => ((value - first.values[index]) / (last.time - first.time)) * 1000);
+	}
+}
+
+/**
+ * Limita `value` ao intervalo `[min, max]`. Com `factor` maior que zero, o valor ultrapassa os limites com resistência
+ * crescente (efeito elástico), nunca indo além de `dimension` do limite.
+ */
+export const rubberband = (value: number, min: number, max: number, dimension: number, factor: number): number => {
+	if (factor <= 0) {
+		return Math.min(Math.max(value, min), max);
+	}
+
+	const resist = (distance: number) => (distance * dimension * factor) / (dimension + factor * distance);
+
+	if (value < min) return min - resist(min - value);
+	if (value > max) return max + resist(value - max);
+	return value;
+};
+
+export const toRubberbandFactor = (rubberband?: boolean | number): number => {
+	return rubberband === true ? RUBBERBAND_FACTOR : rubberband || 0;
+};
+
+/**
+ * Executa a animação de soltura de um gesto com o estado do gesto, interrompendo a anterior. A animação também é
+ * interrompida por `stop` (chamado quando um novo gesto começa) e ao desmontar o componente.
+ */
+export const useGestureRelease = <S extends AnimationState>(state: SharedValues<S>["current"]) => {
+	const controller = useRef<ReturnType<typeof createAnimation>["controller"] | null>(null);
+
+	const stop = useCallback(() => {
+		controller.current?.stop({});
+		controller.current = null;
+	}, []);
+
+	const start = useCallback(
+		(animation: AnimationFn<S>) => {
+			stop();
+
+			controller.current = createAnimation(function* () {
+				yield* animation.call(this, state);
+			}, {}).controller;
+
+			controller.current.start();
+		},
+		[state],
+	);
+
+	useEffect(() => stop, []);
+
+	return { start, stop };
+};
@@ -0,0 +1,199 @@
+import { SharedValues } from "@ismael1361/animation";
+import React, { MutableRefObject, useEffect, useRef } from "react";
+import { useEventListener } from "../useEventListener";
+import { useSharedValues } from "../useSharedValues";
+import { AnimationFn } from "../useAnimation/ProcessProps";
+import { VelocityTracker, rubberband, toRubberbandFactor, useGestureRelease } from "./Gesture";
+
+export interface DragState {
+	/** Deslocamento horizontal acumulado, em pixels. */
+	offsetX: number;
+	/** Deslocamento vertical acumulado, em pixels. */
+	offsetY: number;
+	/** Velocidade horizontal do gesto, em pixels por segundo. */
+	velocityX: number;
+	/** Velocidade vertical do gesto, em pixels por segundo. */
+	velocityY: number;
+	/** Sentido do último movimento horizontal: `-1`, `0` ou `1`. */
+	directionX: number;
+	/** Sentido do último movimento vertical: `-1`, `0` ou `1`. */
+	directionY: number;
+	/** Se o elemento está sendo arrastado. */
+	dragging: boolean;
+}
+
+export type DragValues = SharedValues<DragState>["current"];
+
+export interface DragBounds {
+	left?: number;
+	right?: number;
+	top?: number;
+	bottom?: number;
+}
+
+export interface DragOptions {
+	/** Restringe o arraste a um eixo. Se omitido, arrasta nos dois eixos. */
+	axis?: "x" | "y";
+	/** Limites do deslocamento, em pixels. */
+	bounds?: DragBounds;
+	/**
+	 * Permite ultrapassar `bounds` com resistência (efeito elástico). `true` usa a elasticidade padrão (`0.15`);
+	 * um número define a elasticidade. Padrão `false`.
+	 */
+	rubberband?: boolean | number;
+	/**
+	 * Função geradora executada ao soltar, com os mesmos utilitários de `this` de `useAnimation` e o estado do gesto,
+	 * para encaixar ou arremessar o elemento a partir de `velocityX`/`velocityY` (ex.: com `this.decay` ou `this.spring`).
+	 * Se omitida, um deslocamento fora de `bounds` volta aos limites com uma mola.
+	 */
+	onRelease?: AnimationFn<DragState>;
+}
+
+interface DragGesture {
+	pointerId: number;
+	startX: number;
+	startY: number;
+	originX: number;
+	originY: number;
+	tracker: VelocityTracker;
+}
+
+const clamp = (value: number, min: number = -Infinity, max: number = Infinity) => Math.min(Math.max(value, min), max);
+
+/**
+ * Controla `SharedValue`s de deslocamento, velocidade e direção a partir do arraste de um elemento com o ponteiro
+ * (mouse, toque ou caneta).
+ *
+ * O deslocamento é acumulado entre gestos e pode ser limitado por `bounds`, com ou sem efeito elástico (`rubberband`).
+ * Ao soltar, `onRelease` é executado como uma animação de `useAnimation` com o estado do gesto, recebendo a velocidade
+ * final para encaixar o elemento (`this.spring`, `this.timing`) ou arremessá-lo (`this.decay`). Um novo arraste interrompe
+ * essa animação e continua da posição atual. O hook não move o elemento: aplique o deslocamento com `useAnimatedStyle` ou no `style`.
+ *
+ * @template E O tipo do elemento DOM.
+ * @param {React.RefObject<E>} ref A ref do elemento arrastável.
+ * @param {DragOptions} [options={}] As opções `axis`, `bounds`, `rubberband` e `onRelease`.
+ * @returns {DragValues} Os `SharedValue`s do gesto: `offsetX`, `offsetY`, `velocityX`, `velocityY`, `directionX`, `directionY` e `dragging`.
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef } from 'react';
+ * import { useDrag } from '@ismael1361/react-use';
+ *
+ * const Slider = () => {
+ *   const ref = useRef<HTMLDivElement>(null);
+ *
+ *   const drag = useDrag(ref, {
+ *     axis: 'x',
+ *     bounds: { left: 0, right: 300 },
+ *     rubberband: true,
+ *     onRelease: function* (state) {
+ *       // Encaixa no múltiplo de 100 mais próximo do ponto onde o arremesso pararia
+ *       const projected = state.offsetX.value + state.velocityX.value * 0.2;
+ *       const to = Math.min(Math.max(Math.round(projected / 100) * 100, 0), 300);
+ *       yield* this.spring(state.offsetX, { to, velocity: state.velocityX.value, stiffness: 300, damping: 30 });
+ *     },
+ *   });
+ *
+ *   return <div ref={ref} style={{ transform: `translateX(${drag.offsetX.value}px)` }} />;
+ * };
+ * ```
+ */
+export const useDrag = <E extends HTMLElement = HTMLElement>(ref: React.RefObject<E>, options: DragOptions = {}): DragValues => {
+	const state = useSharedValues<DragState>({ offsetX: 0, offsetY: 0, velocityX: 0, velocityY: 0, directionX: 0, directionY: 0, dragging: false });
+	const config = useRef(options);
+	config.current = options;
+
+	const gesture = useRef<DragGesture | null>(null);
+	const release = useGestureRelease(state);
+	const target = ref as MutableRefObject<HTMLElement>;
+
+	useEventListener(
+		"pointerdown",
+		(event) => {
+			if (gesture.current || event.button > 0) return;
+
+			release.stop();
+			ref.current?.setPointerCapture?.(event.pointerId);
+
+			gesture.current = {
+				pointerId: event.pointerId,
+				startX: event.clientX,
+				startY: event.clientY,
+				originX: state.offsetX.value,
+				originY: state.offsetY.value,
+				tracker: new VelocityTracker(),
+			};
+
+			gesture.current.tracker.push(event.timeStamp, state.offsetX.value, state.offsetY.value);
+			state.velocityX.value = 0;
+			state.velocityY.value = 0;
+			state.dragging.value = true;
+		},
+		target,
+	);
+
+	useEventListener(
+		"pointermove",
+		(event) => {
+			const current = gesture.current;
+			if (!current || event.pointerId !== current.pointerId || !ref.current) return;
+
+			const { axis, bounds = {} } = config.current;
+			const factor = toRubberbandFactor(config.current.rubberband);
+			const { width, height } = ref.current.getBoundingClientRect();
+
+			const x = axis === "y" ? current.originX : rubberband(current.originX + event.clientX - current.startX, bounds.left ?? -Infinity, bounds.right ?? Infinity, width, factor);
+			const y = axis === "x" ? current.originY : rubberband(current.originY + event.clientY - current.startY, bounds.top ?? -Infinity, bounds.bottom ?? Infinity, height, factor);
+
+			if (x !== state.offsetX.value) state.directionX.value = Math.sign(x - state.offsetX.value);
+			if (y !== state.offsetY.value) state.directionY.value = Math.sign(y - state.offsetY.value);
+
+			current.tracker.push(event.timeStamp, x, y);
+			const [velocityX = 0, velocityY = 0] = current.tracker.velocity(event.timeStamp);
+
+			state.offsetX.value = x;
+			state.offsetY.value = y;
+			state.velocityX.value = velocityX;
+			state.velocityY.value = velocityY;
+		},
+		target,
+	);
+
+	const end = (event: PointerEvent) => {
+		const current = gesture.current;
+		if (!current || event.pointerId !== current.pointerId) return;
+
+		gesture.current = null;
+
+		const [velocityX = 0, velocityY = 0] = current.tracker.velocity(event.timeStamp);
+		state.velocityX.value = velocityX;
+		state.velocityY.value = velocityY;
+		state.dragging.value = false;
+
+		release.start(
+			config.current.onRelease ??
+				function* (state) {
+					const { bounds = {} } = config.current;
+					const x = clamp(state.offsetX.value, bounds.left, bounds.right);
+					const y = clamp(state.offsetY.value, bounds.top, bounds.bottom);
+
+					if (x === state.offsetX.value && y === state.offsetY.value) return;
+
+					yield* this.parallel(
+						() => this.spring(state.offsetX, { to: x, velocity: x === state.offsetX.value ? 0 : state.velocityX.value, stiffness: 300, damping: 30 }),
+						() => this.spring(state.offsetY, { to: y, velocity: y === state.offsetY.value ? 0 : state.velocityY.value, stiffness: 300, damping: 30 }),
+					);
+				},
+		);
+	};
+
+	useEventListener("pointerup", end, target);
+	useEventListener("pointercancel", end, target);
+
+	useEffect(() => {
+		if (!ref.current) return;
+		ref.current.style.touchAction = options.axis === "x" ? "pan-y" : options.axis === "y" ? "pan-x" : "none";
+	}, [options.axis]);
+
+	return state;
+};
@@ -0,0 +1,42 @@
+import { SharedValue } from "@ismael1361/animation";
+import { renderHook, act } from "@testing-library/react";
+import { useInterpolation } from "./index";
+
+describe("useInterpolation", () => {
+	it("should interpolate numbers, units and colors", () => {
+		const source = new SharedValue(0);
+
+		const { result } = renderHook(() => ({
+			scale: useInterpolation(source, [0, 100, 200], [1, 2, 4]),
+			height: useInterpolation(source, [0, 200], ["120px", "60px"], { extrapolate: "clamp" }),
+			color: useInterpolation(source, [0, 200], ["#000000", "#ffffff"], { extrapolateLeft: "clamp" }),
+		}));
+
+		const black = result.current.color.value;
+
+		expect(result.current.scale.value).toBe(1);
+		expect(result.current.height.value).toBe("120px");
+
+		act(() => {
+			source.value = 150;
+		});
+
+		expect(result.current.scale.value).toBe(3);
+		expect(result.current.height.value).toBe("75px");
+
+		act(() => {
+			source.value = 300;
+		});
+
+		expect(result.current.scale.value).toBe(6);
+		expect(result.current.height.value).toBe("60px");
+
+		act(() => {
+			source.value = -100;
+		});
+
+		expect(result.current.scale.value).toBe(0);
+		expect(result.current.height.value).toBe("120px");
+		expect(result.current.color.value).toBe(black);
+	});
+});
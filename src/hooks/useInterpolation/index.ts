@@ -0,0 +1,115 @@
+import { SharedValue } from "@ismael1361/animation";
+import { interpolate } from "@ismael1361/utils";
+import { useDerivedValue } from "../useDerivedValue";
+import { mixValues } from "../useAnimation/Utils";
+
+/**
+ * Como o valor se comporta fora do intervalo de entrada:
+ * - `"extend"`: continua a interpolação do segmento mais próximo;
+ * - `"clamp"`: mantém o valor da extremidade do intervalo de saída;
+ * - `"identity"`: retorna o próprio valor de entrada.
+ */
+export type ExtrapolationType = "extend" | "clamp" | "identity";
+
+export interface InterpolationConfig {
+	/** Extrapolação usada nos dois lados do intervalo. Padrão `"extend"`. */
+	extrapolate?: ExtrapolationType;
+	/** Extrapolação abaixo do início do intervalo de entrada. Se omitida, usa `extrapolate`. */
+	extrapolateLeft?: ExtrapolationType;
+	/** Extrapolação acima do fim do intervalo de entrada. Se omitida, usa `extrapolate`. */
+	extrapolateRight?: ExtrapolationType;
+}
+
+export type InterpolationOutput = number | string;
+
+const interpolateValue = (value: number, inputRange: number[], outputRange: InterpolationOutput[], config: InterpolationConfig): InterpolationOutput => {
+	const { extrapolate = "extend", extrapolateLeft = extrapolate, extrapolateRight = extrapolate } = config;
+	const last = inputRange.length - 1;
+
+	if (last < 1) return outputRange[0];
+
+	if (value < inputRange[0]) {
+		if (extrapolateLeft === "identity") return value;
+		if (extrapolateLeft === "clamp") value = inputRange[0];
+	}
+
+	if (value > inputRange[last]) {
+		if (extrapolateRight === "identity") return value;
+		if (extrapolateRight === "clamp") value = inputRange[last];
+	}
+
+	let index = 0;
+
+	while (index < last - 1 && value > inputRange[index + 1]) {
+		index++;
+	}
+
+	const from = outputRange[index];
+	const to = outputRange[index + 1];
+
+	if (typeof from === "number" && typeof to === "number" && value >= inputRange[0] && value <= inputRange[last]) {
+		return interpolate(value, inputRange, outputRange as number[]);
+	}
+
+	const length = inputRange[index + 1] - inputRange[index];
+	const t = length ? (value - inputRange[index]) / length : 1;
+
+	return mixValues(from, to, t) as InterpolationOutput;
+};
+
+/**
+ * Mapeia um `SharedValue` numérico de um intervalo de entrada para um intervalo de saída, retornando um `SharedValue`
+ * derivado (veja `useDerivedValue`) que acompanha a fonte.
+ *
+ * Saídas numéricas usam `interpolate` de `@ismael1361/utils`. As saídas também podem ser strings: cores (`"#f00"`, `"rgb(...)"`),
+ * valores com unidade (`"10px"`, `"50%"`) e listas com a mesma estrutura (`"0px 0px 4px rgba(0,0,0,0.2)"`), interpoladas como
+ * em `this.dom(ref).style`. Cores nunca são extrapoladas além das extremidades.
+ *
+ * @template O O tipo dos valores de saída.
+ * @param {SharedValue<number>} source O `SharedValue` de entrada, como a posição de uma rolagem ou de um arraste.
+ * @param {number[]} inputRange Os pontos do intervalo de entrada, em ordem crescente.
+ * @param {O[]} outputRange Os valores de saída correspondentes a cada ponto de `inputRange`.
+ * @param {InterpolationConfig} [config={}] A extrapolação fora do intervalo (`extrapolate`, `extrapolateLeft`, `extrapolateRight`).
+ * @returns {SharedValue<O extends number ? number : string>} O `SharedValue` interpolado.
+ *
+ * @example
+ * ```tsx
+ * import React, { useMemo, useRef } from 'react';
+ * import { SharedValue } from '@ismael1361/animation';
+ * import { useAnimatedStyle, useInterpolation } from '@ismael1361/react-use';
+ *
+ * const Page = () => {
+ *   const ref = useRef<HTMLElement>(null);
+ *   const scrollY = useMemo(() => new SharedValue(0), []);
+ *
+ *   const height = useInterpolation(scrollY, [0, 200], ['120px', '60px'], { extrapolate: 'clamp' });
+ *   const background = useInterpolation(scrollY, [0, 200], ['#ffffff00', '#ffffff'], { extrapolate: 'clamp' });
+ *   const shadow = useInterpolation(scrollY, [0, 200], [0, 0.2], { extrapolate: 'clamp' });
+ *
+ *   useAnimatedStyle(
+ *     ref,
+ *     () => ({
+ *       height: height.value,
+ *       backgroundColor: background.value,
+ *       boxShadow: `0 2px 8px rgba(0, 0, 0, ${shadow.value})`,
+ *     }),
+ *     [height, background, shadow],
+ *   );
+ *
+ *   return (
+ *     <div style={{ height: '100vh', overflow: 'auto' }} onScroll={(event) => (scrollY.value = event.currentTarget.scrollTop)}>
+ *       <header ref={ref} style={{ position: 'sticky', top: 0 }} />
+ *       <main style={{ height: 2000 }} />
+ *     </div>
+ *   );
+ * };
+ * ```
+ */
+export const useInterpolation = <O extends InterpolationOutput>(
+	source: SharedValue<number>,
+	inputRange: number[],
+	outputRange: O[],
+	config: InterpolationConfig = {},
+): SharedValue<O extends number ? number : string> => {
+	return useDerivedValue(() => interpolateValue(source.value, inputRange, outputRange, config) as O extends number ? number : string, [source]);
+};
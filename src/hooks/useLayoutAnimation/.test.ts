@@ -0,0 +1,42 @@
+import { createElement, useRef } from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import { useLayoutAnimation } from "./index";
+
+const Box = ({ left, version }: { left: number; version?: number }) => {
+	const ref = useRef<HTMLDivElement>(null);
+	useLayoutAnimation(ref, { duration: 100 }, version === undefined ? undefined : [version]);
+	return createElement("div", { ref, "data-testid": "box", "data-left": left, "style": { transform: "rotate(10deg)" } });
+};
+
+describe("useLayoutAnimation", () => {
+	beforeEach(() => {
+		jest.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockImplementation(function (this: HTMLElement) {
+			const left = Number(this.dataset.left);
+			return { left, top: 0, width: 50, height: 50, right: left + 50, bottom: 50, x: left, y: 0, toJSON() {} } as DOMRect;
+		});
+	});
+
+	it("should invert a position change, animate it back and clear it", async () => {
+		const { rerender } = render(createElement(Box, { left: 0 }));
+		expect(screen.getByTestId("box").style.transform).toBe("rotate(10deg)");
+
+		rerender(createElement(Box, { left: 100 }));
+		expect(screen.getByTestId("box").style.transform).toBe("translate(-100.00px, 0.00px) scale(1.000, 1.000) rotate(10deg)");
+
+		await waitFor(() => expect(screen.getByTestId("box").style.transform).toBe("rotate(10deg)"));
+	});
+
+	it("should measure only when the deps change", () => {
+		const measure = jest.mocked(HTMLElement.prototype.getBoundingClientRect);
+		const { rerender } = render(createElement(Box, { left: 0, version: 0 }));
+		measure.mockClear();
+
+		rerender(createElement(Box, { left: 100, version: 0 }));
+		expect(measure).not.toHaveBeenCalled();
+		expect(screen.getByTestId("box").style.transform).toBe("rotate(10deg)");
+
+		rerender(createElement(Box, { left: 100, version: 1 }));
+		expect(measure).toHaveBeenCalledTimes(1);
+		expect(screen.getByTestId("box").style.transform).toContain("translate(-100.00px, 0.00px)");
+	});
+});
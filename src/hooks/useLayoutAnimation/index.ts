@@ -0,0 +1,137 @@
+import { TimingConfig } from "@ismael1361/animation";
+import React, { DependencyList, useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { useMediaQuery } from "../useMediaQuery";
+import { REDUCED_MOTION_QUERY } from "../useAnimation";
+import { createAnimation } from "../useAnimation/createAnimation";
+import ProcessProps from "../useAnimation/ProcessProps";
+import { AnimationOptions, AnimationPlayback, DOMElement, LayoutOffset, SpringConfig } from "../useAnimation/Types";
+
+export type LayoutAnimationOptions = (Omit<TimingConfig, "from" | "to"> | Omit<SpringConfig, "from" | "to">) &
+	AnimationOptions & {
+		/**
+		 * Se `false`, anima apenas a posição, sem compensar mudanças de tamanho com `scale`. Padrão `true`.
+		 */
+		size?: boolean;
+	};
+
+interface LayoutBox {
+	centerX: number;
+	centerY: number;
+	width: number;
+	height: number;
+}
+
+const IDENTITY: LayoutOffset = { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+
+const isSameBox = (a: LayoutBox, b: LayoutBox) =>
+	Math.abs(a.centerX - b.centerX) < 0.5 && Math.abs(a.centerY - b.centerY) < 0.5 && Math.abs(a.width - b.width) < 0.5 && Math.abs(a.height - b.height) < 0.5;
+
+/**
+ * Anima automaticamente as mudanças de posição e tamanho de um elemento entre renderizações, usando a técnica FLIP
+ * (First, Last, Invert, Play).
+ *
+ * A cada commit do componente (ou, com `deps`, apenas quando uma dependência muda), o elemento é medido e comparado com a
+ * medição anterior. Se ele mudou de lugar
+ * ou de tamanho, um `translate` e um `scale` são aplicados antes da pintura para que ele pareça continuar onde estava,
+ * e então animados de volta à identidade através do mesmo mecanismo de `useAnimation`; ao final, eles são removidos do
+ * estilo, sem alterar as demais funções de `transform` do elemento. Se uma nova mudança ocorrer durante
+ * a animação, ela continua a partir da posição visual atual. As medições são feitas pelo centro do elemento, que é a
+ * origem padrão de `transform`; outras transformações que alterem a caixa do elemento (como `rotate`) não são descontadas.
+ * Com movimento reduzido (veja `setReducedMotion`), o elemento vai direto para a nova posição.
+ *
+ * @template E O tipo do elemento DOM.
+ * @param {React.RefObject<E>} ref A ref do elemento a ser animado.
+ * @param {LayoutAnimationOptions} [options={}] Configuração de `timing` (`duration`, `easing`, `delay`) ou de mola (`stiffness`, `damping`, `mass`, ...), além de `size` e `reducedMotion`.
+ * @param {DependencyList} [deps] Os valores que podem mudar o layout do elemento (como a sua posição em uma lista). Se omitido, o elemento é medido a cada commit, o que força um cálculo de layout em toda renderização.
+ * @returns {AnimationPlayback} O controle de reprodução da animação de layout em andamento.
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef, useState } from 'react';
+ * import { useLayoutAnimation } from '@ismael1361/react-use';
+ *
+ * const Item = ({ label, index }) => {
+ *   const ref = useRef<HTMLLIElement>(null);
+ *   useLayoutAnimation(ref, { stiffness: 300, damping: 30 }, [index]);
+ *   return <li ref={ref}>{label}</li>;
+ * };
+ *
+ * const ShuffleList = () => {
+ *   const [items, setItems] = useState(['A', 'B', 'C', 'D']);
+ *
+ *   return (
+ *     <>
+ *       <button onClick={() => setItems([...items].sort(() => Math.random() - 0.5))}>Embaralhar</button>
+ *       <ul>
+ *         {items.map((item, index) => <Item key={item} label={item} index={index} />)}
+ *       </ul>
+ *     </>
+ *   );
+ * };
+ * ```
+ */
+export const useLayoutAnimation = <E extends DOMElement = HTMLElement>(ref: React.RefObject<E>, options: LayoutAnimationOptions = {}, deps?: DependencyList): AnimationPlayback => {
+	const layout = useRef<LayoutBox | null>(null);
+	const offset = useRef<LayoutOffset>(IDENTITY);
+	const config = useRef(options);
+	config.current = options;
+
+	const { controller, clock } = useMemo(
+		() =>
+			createAnimation(function* () {
+				const { size, reducedMotion, ...conf } = config.current;
+				yield* this.dom(ref).layout({ ...conf, from: offset.current, to: IDENTITY });
+			}, {}),
+		[],
+	);
+	clock.policy = options.reducedMotion;
+
+	useMediaQuery(
+		REDUCED_MOTION_QUERY,
+		(matches) => {
+			clock.prefersReducedMotion = matches;
+		},
+		[clock],
+	);
+
+	useLayoutEffect(() => {
+		const element = ref.current;
+		if (!element) return;
+
+		const dom = ProcessProps.dom(ref);
+		const current = dom.layoutOffset;
+		const rect = element.getBoundingClientRect();
+
+		const next: LayoutBox = {
+			centerX: rect.left + window.scrollX + rect.width / 2 - current.x,
+			centerY: rect.top + window.scrollY + rect.height / 2 - current.y,
+			width: rect.width / current.scaleX,
+			height: rect.height / current.scaleY,
+		};
+
+		const previous = layout.current;
+		layout.current = next;
+		if (!previous || isSameBox(previous, next) || clock.motionReduced) return;
+
+		const size = config.current.size ?? true;
+
+		const from: LayoutOffset = {
+			x: previous.centerX + current.x - next.centerX,
+			y: previous.centerY + current.y - next.centerY,
+			scaleX: size && next.width ? (previous.width * current.scaleX) / next.width : 1,
+			scaleY: size && next.height ? (previous.height * current.scaleY) / next.height : 1,
+		};
+
+		offset.current = from;
+		dom.layoutOffset = from;
+		controller.restart({});
+	}, deps);
+
+	useEffect(() => {
+		return () => {
+			controller.stop({});
+		};
+	}, []);
+
+	return controller;
+};
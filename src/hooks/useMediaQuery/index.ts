@@ -5,7 +5,7 @@ type EffectCallback = (matches: boolean) => ReturnType<React.EffectCallback>;
 /**
  * Executa um efeito colateral em resposta a uma media query do CSS, de forma reativa.
  * O hook observa a media query e executa o callback `effect` sempre que o estado de correspondência (match) muda,
- * além de na montagem inicial do componente.
+ * além de na montagem inicial do componente. Em ambientes sem `window.matchMedia` (como na renderização no servidor), o efeito não é executado.
  *
  * É útil para aplicar lógica ou efeitos secundários que dependem do tamanho da tela, orientação ou outras
  * características do dispositivo, sem precisar gerenciar o estado em um `useState`.
@@ -45,6 +45,8 @@ export const useMediaQuery = (query: string, effect: EffectCallback, deps: Depen
 	const destructorRef = useRef<(() => void) | null>(null);
 
 	useEffect(() => {
+		if (typeof window === "undefined" || typeof window.matchMedia !== "function") return;
+
 		const mediaQuery = window.matchMedia(query);
 		const handleChange = () => {
 			destructorRef.current?.();
@@ -0,0 +1,89 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { usePinch } from "./index";
+
+const pointer = (type: string, pointerId: number, clientX: number, clientY: number) => {
+	const event = new MouseEvent(type, { clientX, clientY, bubbles: true });
+	Object.defineProperty(event, "pointerId", { value: pointerId });
+	return event;
+};
+
+const createElement = () => {
+	const element = document.createElement("div");
+	element.getBoundingClientRect = () => ({ left: 10, top: 20, width: 200, height: 200, right: 210, bottom: 220, x: 10, y: 20, toJSON() {} }) as DOMRect;
+	return element;
+};
+
+describe("usePinch", () => {
+	it("should track the scale and origin between two pointers and run onRelease", () => {
+		const element = createElement();
+		const ref = { current: element };
+		const released = jest.fn();
+
+		const { result } = renderHook(() =>
+			usePinch(ref, {
+				onRelease: function* (state) {
+					released(state.scale.value, state.pinching.value);
+				},
+			}),
+		);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerdown", 1, 10, 20));
+			element.dispatchEvent(pointer("pointermove", 1, 10, 20));
+		});
+
+		expect(result.current.pinching.value).toBe(false);
+		expect(result.current.scale.value).toBe(1);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerdown", 2, 110, 20));
+			element.dispatchEvent(pointer("pointermove", 2, 210, 20));
+		});
+
+		expect(result.current.pinching.value).toBe(true);
+		expect(result.current.scale.value).toBe(2);
+		expect(result.current.originX.value).toBe(100);
+		expect(result.current.originY.value).toBe(0);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerup", 2, 210, 20));
+			element.dispatchEvent(pointer("pointermove", 1, 0, 20));
+		});
+
+		expect(result.current.pinching.value).toBe(false);
+		expect(result.current.scale.value).toBe(2);
+		expect(released).toHaveBeenCalledWith(2, false);
+		expect(element.style.touchAction).toBe("none");
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerdown", 3, 110, 20));
+			element.dispatchEvent(pointer("pointermove", 3, 55, 20));
+		});
+
+		expect(result.current.scale.value).toBe(1);
+	});
+
+	it("should resist past maxScale and spring back on release", async () => {
+		const element = createElement();
+		const ref = { current: element };
+
+		const { result } = renderHook(() => usePinch(ref, { maxScale: 2, rubberband: true }));
+
+		act(() => {
+			element.dispatchEvent(pointer("pointerdown", 1, 0, 0));
+			element.dispatchEvent(pointer("pointerdown", 2, 100, 0));
+			element.dispatchEvent(pointer("pointermove", 2, 400, 0));
+		});
+
+		expect(result.current.scale.value).toBeGreaterThan(2);
+		expect(result.current.scale.value).toBeLessThan(4);
+
+		act(() => {
+			element.dispatchEvent(pointer("pointercancel", 1, 0, 0));
+		});
+
+		expect(result.current.pinching.value).toBe(false);
+
+		await waitFor(() => expect(result.current.scale.value).toBe(2), { timeout: 3000 });
+	});
+});
@@ -0,0 +1,172 @@
+import { SharedValues } from "@ismael1361/animation";
+import React, { MutableRefObject, useEffect, useRef } from "react";
+import { useEventListener } from "../useEventListener";
+import { useSharedValues } from "../useSharedValues";
+import { AnimationFn } from "../useAnimation/ProcessProps";
+import { VelocityTracker, rubberband, toRubberbandFactor, useGestureRelease } from "../useDrag/Gesture";
+
+export interface PinchState {
+	/** Escala acumulada, começando em `1`. */
+	scale: number;
+	/** Posição horizontal do ponto médio entre os dedos, em pixels a partir da borda esquerda do elemento. */
+	originX: number;
+	/** Posição vertical do ponto médio entre os dedos, em pixels a partir da borda superior do elemento. */
+	originY: number;
+	/** Velocidade da escala, em unidades por segundo. */
+	velocity: number;
+	/** Se o gesto de pinça está em andamento. */
+	pinching: boolean;
+}
+
+export type PinchValues = SharedValues<PinchState>["current"];
+
+export interface PinchOptions {
+	/** Escala mínima. Padrão `0`. */
+	minScale?: number;
+	/** Escala máxima. Padrão `Infinity`. */
+	maxScale?: number;
+	/**
+	 * Permite ultrapassar `minScale`/`maxScale` com resistência (efeito elástico). `true` usa a elasticidade padrão (`0.15`);
+	 * um número define a elasticidade. Padrão `false`.
+	 */
+	rubberband?: boolean | number;
+	/**
+	 * Função geradora executada ao soltar, com os mesmos utilitários de `this` de `useAnimation` e o estado do gesto.
+	 * Se omitida, uma escala fora dos limites volta a eles com uma mola.
+	 */
+	onRelease?: AnimationFn<PinchState>;
+}
+
+interface PinchGesture {
+	distance: number;
+	scale: number;
+	tracker: VelocityTracker;
+}
+
+/**
+ * Controla `SharedValue`s de escala e origem a partir do gesto de pinça com dois ponteiros (dois dedos em telas sensíveis ao toque).
+ *
+ * A escala é acumulada entre gestos e pode ser limitada por `minScale` e `maxScale`, com ou sem efeito elástico. A origem
+ * é o ponto médio entre os ponteiros, relativo ao elemento, e pode ser usada como `transform-origin`. Ao soltar, `onRelease`
+ * é executado como uma animação de `useAnimation` com o estado do gesto, incluindo a velocidade da escala. Um novo gesto
+ * interrompe essa animação. O hook não altera o elemento: aplique a escala com `useAnimatedStyle` ou no `style`.
+ *
+ * @template E O tipo do elemento DOM.
+ * @param {React.RefObject<E>} ref A ref do elemento.
+ * @param {PinchOptions} [options={}] As opções `minScale`, `maxScale`, `rubberband` e `onRelease`.
+ * @returns {PinchValues} Os `SharedValue`s do gesto: `scale`, `originX`, `originY`, `velocity` e `pinching`.
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef } from 'react';
+ * import { usePinch } from '@ismael1361/react-use';
+ *
+ * const Photo = () => {
+ *   const ref = useRef<HTMLImageElement>(null);
+ *   const pinch = usePinch(ref, { minScale: 1, maxScale: 4, rubberband: true });
+ *
+ *   return (
+ *     <img
+ *       ref={ref}
+ *       src="/photo.jpg"
+ *       style={{
+ *         transform: `scale(${pinch.scale.value})`,
+ *         transformOrigin: `${pinch.originX.value}px ${pinch.originY.value}px`,
+ *       }}
+ *     />
+ *   );
+ * };
+ * ```
+ */
+export const usePinch = <E extends HTMLElement = HTMLElement>(ref: React.RefObject<E>, options: PinchOptions = {}): PinchValues => {
+	const state = useSharedValues<PinchState>({ scale: 1, originX: 0, originY: 0, velocity: 0, pinching: false });
+	const config = useRef(options);
+	config.current = options;
+
+	const pointers = useRef(new Map<number, { x: number; y: number }>());
+	const gesture = useRef<PinchGesture | null>(null);
+	const release = useGestureRelease(state);
+	const target = ref as MutableRefObject<HTMLElement>;
+
+	const measure = () => {
+		const [a, b] = Array.from(pointers.current.values());
+		return { distance: Math.hypot(b.x - a.x, b.y - a.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+	};
+
+	useEventListener(
+		"pointerdown",
+		(event) => {
+			if (pointers.current.size >= 2) return;
+
+			ref.current?.setPointerCapture?.(event.pointerId);
+			pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+			if (pointers.current.size < 2) return;
+
+			release.stop();
+
+			const { distance } = measure();
+			gesture.current = { distance: distance || 1, scale: state.scale.value, tracker: new VelocityTracker() };
+			gesture.current.tracker.push(event.timeStamp, state.scale.value);
+			state.velocity.value = 0;
+			state.pinching.value = true;
+		},
+		target,
+	);
+
+	useEventListener(
+		"pointermove",
+		(event) => {
+			if (!pointers.current.has(event.pointerId)) return;
+			pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+			const current = gesture.current;
+			if (!current || pointers.current.size < 2 || !ref.current) return;
+
+			const { minScale = 0, maxScale = Infinity } = config.current;
+			const { distance, x, y } = measure();
+			const rect = ref.current.getBoundingClientRect();
+			const scale = rubberband((current.scale * distance) / current.distance, minScale, maxScale, 1, toRubberbandFactor(config.current.rubberband));
+
+			current.tracker.push(event.timeStamp, scale);
+
+			state.scale.value = scale;
+			state.originX.value = x - rect.left;
+			state.originY.value = y - rect.top;
+			state.velocity.value = current.tracker.velocity(event.timeStamp)[0] ?? 0;
+		},
+		target,
+	);
+
+	const end = (event: PointerEvent) => {
+		if (!pointers.current.delete(event.pointerId)) return;
+
+		const current = gesture.current;
+		if (!current) return;
+
+		gesture.current = null;
+		state.velocity.value = current.tracker.velocity(event.timeStamp)[0] ?? 0;
+		state.pinching.value = false;
+
+		release.start(
+			config.current.onRelease ??
+				function* (state) {
+					const { minScale = 0, maxScale = Infinity } = config.current;
+					const scale = Math.min(Math.max(state.scale.value, minScale), maxScale);
+
+					if (scale !== state.scale.value) {
+						yield* this.spring(state.scale, { to: scale, stiffness: 300, damping: 30 });
+					}
+				},
+		);
+	};
+
+	useEventListener("pointerup", end, target);
+	useEventListener("pointercancel", end, target);
+
+	useEffect(() => {
+		if (ref.current) ref.current.style.touchAction = "none";
+	}, []);
+
+	return state;
+};
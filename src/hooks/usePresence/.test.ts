@@ -0,0 +1,30 @@
+import { createElement } from "react";
+import { render, renderHook, screen, waitFor } from "@testing-library/react";
+import { AnimatePresence, usePresence } from "./index";
+
+const Item = ({ label }: { label: string }) => {
+	const [isPresent] = usePresence(function* () {
+		yield* this.wait(100);
+	});
+
+	return createElement("div", { "data-testid": label }, isPresent ? "in" : "out");
+};
+
+describe("usePresence", () => {
+	it("should be present outside AnimatePresence", () => {
+		const { result } = renderHook(() => usePresence());
+		expect(result.current[0]).toBe(true);
+	});
+
+	it("should keep a removed child until its exit animation finishes", async () => {
+		const onExitComplete = jest.fn();
+		const { rerender } = render(createElement(AnimatePresence, { onExitComplete }, createElement(Item, { key: "a", label: "a" })));
+		expect(screen.getByTestId("a").textContent).toBe("in");
+
+		rerender(createElement(AnimatePresence, { onExitComplete }));
+		expect(screen.getByTestId("a").textContent).toBe("out");
+
+		await waitFor(() => expect(screen.queryByTestId("a")).toBeNull());
+		expect(onExitComplete).toHaveBeenCalledTimes(1);
+	});
+});
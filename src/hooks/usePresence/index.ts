@@ -0,0 +1,214 @@
+import { AnimationState } from "@ismael1361/animation";
+import { Children, createContext, createElement, Fragment, isValidElement, Key, ReactElement, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useId } from "../useId";
+import { createAnimation } from "../useAnimation/createAnimation";
+import { AnimationFn } from "../useAnimation/ProcessProps";
+
+interface PresenceContextProps {
+	isPresent: boolean;
+	register: (id: string) => () => void;
+	safeToRemove: (id: string) => void;
+}
+
+const PresenceContext = createContext<PresenceContextProps | null>(null);
+
+interface PresenceChildProps {
+	isPresent: boolean;
+	onExitComplete: () => void;
+	children?: ReactNode;
+}
+
+const PresenceChild = ({ isPresent, onExitComplete, children }: PresenceChildProps) => {
+	const consumers = useMemo(() => new Map<string, boolean>(), []);
+	const complete = useRef(onExitComplete);
+	complete.current = onExitComplete;
+
+	const context = useMemo<PresenceContextProps>(() => {
+		consumers.forEach((_, id) => consumers.set(id, false));
+
+		return {
+			isPresent,
+			register(id) {
+				consumers.set(id, false);
+				return () => {
+					consumers.delete(id);
+				};
+			},
+			safeToRemove(id) {
+				if (isPresent || !consumers.has(id)) return;
+				consumers.set(id, true);
+
+				for (const removed of consumers.values()) {
+					if (!removed) return;
+				}
+
+				complete.current();
+			},
+		};
+	}, [isPresent]);
+
+	useEffect(() => {
+		if (!isPresent && consumers.size === 0) {
+			complete.current();
+		}
+	}, [isPresent]);
+
+	return createElement(PresenceContext.Provider, { value: context }, children);
+};
+
+const getKey = (child: ReactElement): Key => child.key ?? "";
+
+export interface AnimatePresenceProps {
+	children?: ReactNode;
+	/** Chamado quando todos os elementos que estavam saindo terminaram suas animações de saída. */
+	onExitComplete?: () => void;
+}
+
+/**
+ * Mantém na árvore os filhos removidos até que suas animações de saída terminem.
+ *
+ * Cada filho direto deve possuir uma `key` única. Quando um filho deixa de ser renderizado, ele continua montado
+ * na mesma posição com `isPresent` igual a `false` (consultado através de `usePresence`), e só é desmontado após
+ * todos os seus consumidores de `usePresence` sinalizarem que podem ser removidos. Filhos sem nenhum consumidor de
+ * `usePresence` são removidos imediatamente. Se um filho que está saindo voltar a ser renderizado, ele é mantido
+ * e volta a ficar presente.
+ *
+ * @param {AnimatePresenceProps} props As propriedades do componente.
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef, useState } from 'react';
+ * import { AnimatePresence, usePresence } from '@ismael1361/react-use';
+ *
+ * const Toast = ({ message }) => {
+ *   const ref = useRef<HTMLDivElement>(null);
+ *
+ *   usePresence(function* () {
+ *     yield* this.dom(ref).opacity({ to: 0, duration: 300 });
+ *   });
+ *
+ *   return <div ref={ref}>{message}</div>;
+ * };
+ *
+ * const Toasts = () => {
+ *   const [toasts, setToasts] = useState<string[]>([]);
+ *
+ *   return (
+ *     <AnimatePresence onExitComplete={() => console.log('Saída concluída')}>
+ *       {toasts.map((message) => <Toast key={message} message={message} />)}
+ *     </AnimatePresence>
+ *   );
+ * };
+ * ```
+ */
+export const AnimatePresence = ({ children, onExitComplete }: AnimatePresenceProps) => {
+	const [, forceRender] = useState({});
+	const rendered = useRef<ReactElement[]>([]);
+	const exiting = useRef(new Set<Key>());
+	const exitComplete = useRef(onExitComplete);
+	exitComplete.current = onExitComplete;
+
+	const current = Children.toArray(children).filter(isValidElement) as ReactElement[];
+	const keys = current.map(getKey);
+	const next = [...current];
+
+	rendered.current.forEach((child, index) => {
+		const key = getKey(child);
+
+		if (keys.includes(key)) {
+			exiting.current.delete(key);
+			return;
+		}
+
+		exiting.current.add(key);
+		next.splice(Math.min(index, next.length), 0, child);
+	});
+
+	rendered.current = next;
+
+	return createElement(
+		Fragment,
+		null,
+		next.map((child) => {
+			const key = getKey(child);
+
+			return createElement(
+				PresenceChild,
+				{
+					key,
+					isPresent: !exiting.current.has(key),
+					onExitComplete: () => {
+						if (!exiting.current.delete(key)) return;
+						rendered.current = rendered.current.filter((child) => getKey(child) !== key);
+						if (exiting.current.size === 0) exitComplete.current?.();
+						forceRender({});
+					},
+				},
+				child,
+			);
+		}),
+	);
+};
+
+/**
+ * Informa se o componente ainda está presente dentro de um `AnimatePresence` e permite executar uma animação de saída
+ * antes de ele ser desmontado.
+ *
+ * Quando `exit` é informado, a função geradora é executada (com os mesmos utilitários de `this` de `useAnimation`) assim que
+ * o componente deixa de estar presente, e o componente é removido ao final dela. Sem `exit`, cabe ao componente chamar
+ * `safeToRemove` quando puder ser removido. Fora de um `AnimatePresence`, o componente é sempre considerado presente.
+ *
+ * @template S O tipo do objeto de estado da animação de saída.
+ * @param {AnimationFn<S>} [exit] A função geradora da animação de saída.
+ * @param {S} [state={}] O objeto de estado inicial da animação de saída.
+ * @returns {[boolean, () => void]} Uma tupla com `isPresent` e a função `safeToRemove`.
+ *
+ * @example
+ * ```tsx
+ * import React, { useEffect } from 'react';
+ * import { usePresence } from '@ismael1361/react-use';
+ *
+ * const Item = () => {
+ *   const [isPresent, safeToRemove] = usePresence();
+ *
+ *   useEffect(() => {
+ *     if (!isPresent) {
+ *       const timer = setTimeout(safeToRemove, 500);
+ *       return () => clearTimeout(timer);
+ *     }
+ *   }, [isPresent]);
+ *
+ *   return <div className={isPresent ? 'enter' : 'leave'}>Item</div>;
+ * };
+ * ```
+ */
+export const usePresence = <S extends AnimationState>(exit?: AnimationFn<S>, state: S = {} as S): [isPresent: boolean, safeToRemove: () => void] => {
+	const context = useContext(PresenceContext);
+	const id = useId();
+	const isPresent = context?.isPresent ?? true;
+
+	useEffect(() => context?.register(id), []);
+
+	const safeToRemove = useCallback(() => {
+		context?.safeToRemove(id);
+	}, [context]);
+
+	useEffect(() => {
+		if (isPresent || !exit) return;
+
+		const { controller, clock } = createAnimation(exit, state);
+
+		const event = clock.onChange(() => {
+			if (clock.status === "finished") safeToRemove();
+		});
+
+		controller.start();
+
+		return () => {
+			event.stop();
+			controller.stop(state);
+		};
+	}, [isPresent]);
+
+	return [isPresent, safeToRemove];
+};
@@ -0,0 +1,124 @@
+import { createElement, useRef } from "react";
+import { act, render, renderHook, screen } from "@testing-library/react";
+import { useScrollAnimation } from "./index";
+
+const createContainer = () => {
+	const element = document.createElement("div");
+	Object.defineProperty(element, "scrollHeight", { value: 1100 });
+	Object.defineProperty(element, "clientHeight", { value: 100 });
+	return element;
+};
+
+const scrollTo = (element: HTMLElement, top: number) => {
+	act(() => {
+		element.scrollTop = top;
+		element.dispatchEvent(new Event("scroll"));
+	});
+};
+
+describe("useScrollAnimation", () => {
+	it("should map the scroll progress onto the measured timeline", () => {
+		const element = createContainer();
+		const easing = jest.fn((t: number) => t);
+
+		const { result } = renderHook(() =>
+			useScrollAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 1000, easing });
+				},
+				{ container: { current: element } },
+				{ x: 0 },
+			),
+		);
+
+		expect(result.current.duration).toBeCloseTo(1000);
+
+		scrollTo(element, 500);
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+
+		easing.mockClear();
+		scrollTo(element, 600);
+
+		expect(result.current.state.x.value).toBeCloseTo(60, 0);
+		expect(easing.mock.calls.length).toBeLessThanOrEqual(7);
+
+		scrollTo(element, 250);
+
+		expect(result.current.state.x.value).toBeCloseTo(25, 0);
+		expect(result.current.progress).toBeCloseTo(0.25, 2);
+	});
+
+	it("should measure the timeline again when deps change", () => {
+		const element = createContainer();
+
+		const { result, rerender } = renderHook(
+			({ duration }) =>
+				useScrollAnimation(
+					function* (state) {
+						yield* this.timing(state.x, { from: 0, to: 100, duration, easing: this.Easing.linear });
+						yield* this.wait(duration);
+					},
+					{ container: { current: element } },
+					{ x: 0 },
+					[duration],
+				),
+			{ initialProps: { duration: 1000 } },
+		);
+
+		scrollTo(element, 250);
+
+		expect(result.current.duration).toBeCloseTo(2000);
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+
+		rerender({ duration: 500 });
+
+		expect(result.current.duration).toBeCloseTo(1000);
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+		expect(result.current.time).toBeCloseTo(250);
+	});
+
+	it("should follow a container ref attached by the component that uses it", () => {
+		jest.spyOn(HTMLElement.prototype, "scrollHeight", "get").mockReturnValue(1100);
+		jest.spyOn(HTMLElement.prototype, "clientHeight", "get").mockReturnValue(100);
+
+		const Scroller = () => {
+			const container = useRef<HTMLDivElement>(null);
+			const { state, progress } = useScrollAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 1000, easing: this.Easing.linear });
+				},
+				{ container },
+				{ x: 0 },
+			);
+
+			return createElement("div", { "ref": container, "data-testid": "scroller", "data-x": state.x.value, "data-progress": progress });
+		};
+
+		render(createElement(Scroller));
+		const element = screen.getByTestId("scroller");
+
+		scrollTo(element, 500);
+
+		expect(Number(element.dataset.x)).toBeCloseTo(50, 0);
+		expect(Number(element.dataset.progress)).toBeCloseTo(0.5, 2);
+	});
+
+	it("should apply the final values when motion is reduced", () => {
+		const element = createContainer();
+
+		const { result } = renderHook(() =>
+			useScrollAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 1000 });
+				},
+				{ container: { current: element }, reducedMotion: "always" },
+				{ x: 0 },
+			),
+		);
+
+		expect(result.current.state.x.value).toBe(100);
+
+		scrollTo(element, 500);
+		expect(result.current.state.x.value).toBe(100);
+	});
+});
@@ -0,0 +1,214 @@
+import { AnimationState, SharedValues } from "@ismael1361/animation";
+import { DependencyList, RefObject, useEffect, useMemo, useRef, useState } from "react";
+import { REDUCED_MOTION_QUERY } from "../useAnimation";
+import AnimationClock, { MAX_DURATION } from "../useAnimation/AnimationClock";
+import ProcessProps, { AnimationFn } from "../useAnimation/ProcessProps";
+import { AnimationOptions, AnimationPlayback } from "../useAnimation/Types";
+import { useCallbackRef } from "../useCallbackRef";
+import { useMediaQuery } from "../useMediaQuery";
+
+type ScrollEdge = "start" | "center" | "end" | number | `${number}%` | `${number}px`;
+
+type ScrollOffset = `${ScrollEdge} ${ScrollEdge}` | ScrollEdge;
+
+/**
+ * A posição na linha do tempo. Os controles de reprodução (`pause`, `resume`, `seek`, `reverse` e `playbackRate`) ficam de
+ * fora: quem move a linha do tempo é a rolagem.
+ */
+type ScrollTimeline = Pick<AnimationPlayback, "status" | "time" | "duration" | "progress">;
+
+interface ScrollAnimationOptions extends AnimationOptions {
+	/**
+	 * Elemento cujo deslocamento dentro do contêiner define o progresso. Se omitido, usa o progresso de rolagem do próprio contêiner.
+	 */
+	target?: RefObject<Element>;
+	/**
+	 * Contêiner com rolagem. Por padrão, a janela. A referência é lida na montagem.
+	 */
+	container?: RefObject<HTMLElement>;
+	/**
+	 * Eixo de rolagem observado. Padrão `"y"`.
+	 */
+	axis?: "x" | "y";
+	/**
+	 * Pares `"<borda do alvo> <borda do contêiner>"` que marcam o início (progresso `0`) e o fim (progresso `1`) da animação.
+	 * Padrão `["start end", "end start"]`: começa quando o alvo entra pela borda final do contêiner e termina quando sai pela inicial.
+	 */
+	range?: [ScrollOffset, ScrollOffset];
+}
+
+const resolveEdge = (edge: string | number, size: number): number => {
+	if (typeof edge === "number") return edge * size;
+	if (edge === "start") return 0;
+	if (edge === "center") return size / 2;
+	if (edge === "end") return size;
+	if (edge.endsWith("%")) return (parseFloat(edge) / 100) * size;
+	return parseFloat(edge) || 0;
+};
+
+const parseOffset = (offset: ScrollOffset): [string | number, string | number] => {
+	if (typeof offset === "number") return [offset, offset];
+	const [target, container = target] = offset.trim().split(/\s+/);
+	return [target, container];
+};
+
+const getScrollProgress = (options: ScrollAnimationOptions): number => {
+	const { target, container, axis = "y", range = ["start end", "end start"] } = options;
+	const element = container?.current;
+	const horizontal = axis === "x";
+
+	const viewport = element ? element.getBoundingClientRect() : { top: 0, left: 0, width: window.innerWidth, height: window.innerHeight };
+
+	const viewportStart = horizontal ? viewport.left : viewport.top;
+	const viewportSize = horizontal ? viewport.width : viewport.height;
+
+	if (!target?.current) {
+		const scroll = element ? (horizontal ? element.scrollLeft : element.scrollTop) : horizontal ? window.scrollX : window.scrollY;
+		const max = element
+			? horizontal
+				? element.scrollWidth - element.clientWidth
+				: element.scrollHeight - element.clientHeight
+			: horizontal
+				? document.documentElement.scrollWidth - window.innerWidth
+				: document.documentElement.scrollHeight - window.innerHeight;
+
+		return max > 0 ? Math.min(Math.max(scroll / max, 0), 1) : 0;
+	}
+
+	const rect = target.current.getBoundingClientRect();
+	const targetStart = horizontal ? rect.left : rect.top;
+	const targetSize = horizontal ? rect.width : rect.height;
+
+	// Distância (no eixo) que ainda falta rolar até cada par de bordas se alinhar.
+	const [start, end] = range.map((offset) => {
+		const [targetEdge, containerEdge] = parseOffset(offset);
+		return targetStart + resolveEdge(targetEdge, targetSize) - (viewportStart + resolveEdge(containerEdge, viewportSize));
+	});
+
+	if (start === end) return start <= 0 ? 1 : 0;
+
+	return Math.min(Math.max(start / (start - end), 0), 1);
+};
+
+/**
+ * Executa um gerador de animação guiado pela posição de rolagem, e não pelo relógio de quadros.
+ *
+ * O gerador é o mesmo usado em `useAnimation` (com `this.timing`, `this.dom(ref)`, `this.parallel`, etc.): sua duração
+ * total é medida na montagem (e de novo quando `deps` ou a preferência de movimento reduzido mudam) e o progresso da
+ * rolagem (`0` a `1`) é mapeado sobre essa linha do tempo. Assim, o mesmo código de animação funciona tanto baseado em
+ * tempo quanto baseado em rolagem. Animações que não terminam em 60 segundos (como um `loop` infinito) usam uma linha
+ * do tempo de 60 segundos. Com movimento reduzido, `timing` e `spring` aplicam o valor final imediatamente.
+ *
+ * @template S O tipo (shape) do objeto de estado da animação.
+ * @param {AnimationFn<S>} animation Uma função geradora que define a animação, com `this` vinculado aos utilitários de `useAnimation`.
+ * @param {ScrollAnimationOptions} [options] Opções de rolagem (`target`, `container`, `axis` e `range`) e a política de movimento reduzido (`reducedMotion`).
+ * @param {S} [state={}] O objeto de estado inicial. Cada propriedade se tornará um `SharedValue`.
+ * @param {React.DependencyList} [deps=[]] Se qualquer uma dessas dependências mudar, a animação é medida de novo a partir do estado inicial.
+ * @returns {{ state: SharedValues<S>["current"] } & ScrollTimeline} Os `SharedValue`s do estado e a posição na linha do tempo (`progress`, `time`, `duration` e `status`).
+ *
+ * @example
+ * ```tsx
+ * import React, { useRef } from 'react';
+ * import { useScrollAnimation } from '@ismael1361/react-use';
+ *
+ * const Reveal = () => {
+ *   const card = useRef(null);
+ *
+ *   // Aparece enquanto o card atravessa a tela.
+ *   const { progress } = useScrollAnimation(
+ *     function* () {
+ *       yield* this.parallel(
+ *         () => this.dom(card).opacity({ from: 0, to: 1, duration: 500 }),
+ *         () => this.dom(card).translateY({ from: 40, to: 0, duration: 500 }),
+ *       );
+ *     },
+ *     { target: card, axis: 'y', range: ['start end', 'center center'] },
+ *   );
+ *
+ *   return <div ref={card}>Progresso: {Math.round(progress * 100)}%</div>;
+ * };
+ * ```
+ */
+export const useScrollAnimation = <S extends AnimationState>(animation: AnimationFn<S>, options: ScrollAnimationOptions = {}, state: S = {} as S, deps: DependencyList = []) => {
+	const [render, setRender] = useState({});
+	const optionsRef = useRef(options);
+	optionsRef.current = options;
+	const animationRef = useRef(animation);
+	animationRef.current = animation;
+
+	const { clock, values } = useMemo(() => {
+		const values = new SharedValues<S>(state);
+
+		const clock = new AnimationClock(
+			() => animationRef.current.call(ProcessProps, values.current),
+			() => {
+				for (const key in state) {
+					values.current[key].value = state[key];
+				}
+			},
+			() => {},
+		);
+
+		clock.pause();
+
+		return { clock, values };
+	}, []);
+	clock.policy = options.reducedMotion;
+
+	const update = useCallbackRef(() => {
+		clock.seek(getScrollProgress(optionsRef.current) * (clock.duration ?? MAX_DURATION));
+	});
+
+	const measure = useCallbackRef(() => {
+		clock.measure();
+		update();
+	});
+
+	useEffect(() => measure(), [clock, options.reducedMotion, ...deps]);
+
+	useMediaQuery(
+		REDUCED_MOTION_QUERY,
+		(matches) => {
+			if (clock.prefersReducedMotion === matches) return;
+			clock.prefersReducedMotion = matches;
+			measure();
+		},
+		[clock],
+	);
+
+	useEffect(() => {
+		// Lido aqui, e não durante a renderização, para que a referência já aponte para o elemento montado.
+		// O contêiner é o da montagem: trocá-lo depois não muda o elemento observado.
+		const scroller: HTMLElement | Window = optionsRef.current.container?.current ?? window;
+
+		const change = values.on("change", () => {
+			if (!clock.replaying) setRender({});
+		});
+		const playback = clock.onChange(() => setRender({}));
+
+		scroller.addEventListener("scroll", update, { passive: true });
+		window.addEventListener("resize", update);
+		update();
+
+		return () => {
+			change.stop();
+			playback.stop();
+			scroller.removeEventListener("scroll", update);
+			window.removeEventListener("resize", update);
+		};
+	}, [clock]);
+
+	return useMemo(
+		() =>
+			Object.defineProperties(
+				{ state: values.current },
+				{
+					status: { get: () => clock.status },
+					time: { get: () => clock.time },
+					duration: { get: () => clock.duration },
+					progress: { get: () => clock.progress },
+				},
+			) as { state: SharedValues<S>["current"] } & ScrollTimeline,
+		[clock, render],
+	);
+};
@@ -0,0 +1,83 @@
+import { act, renderHook } from "@testing-library/react";
+import { useAnimation } from "../hooks/useAnimation";
+import { useDebouncedCallback } from "../hooks/useDebouncedCallback";
+import { useLocalStorage } from "../hooks/useLocalStorage";
+import { useMediaQuery } from "../hooks/useMediaQuery";
+import { advanceFrames, advanceTime, installFrameClock, mockLocalStorage, mockMatchMedia, mockResizeObserver, uninstallFrameClock } from "./index";
+
+describe("testing", () => {
+	afterEach(() => {
+		uninstallFrameClock();
+		jest.useRealTimers();
+	});
+
+	it("should drive animations frame by frame", () => {
+		installFrameClock();
+
+		const { result } = renderHook(() =>
+			useAnimation(
+				function* (state) {
+					yield* this.timing(state.x, { from: 0, to: 100, duration: 500, easing: this.Easing.linear });
+				},
+				{ x: 0 },
+			),
+		);
+
+		act(() => advanceTime(250));
+		expect(result.current.state.x.value).toBeCloseTo(50, 0);
+
+		act(() => advanceFrames(1));
+		expect(result.current.state.x.value).toBeCloseTo(53.33, 1);
+
+		act(() => advanceTime(1000));
+		expect(result.current.state.x.value).toBe(100);
+		expect(result.current.status).toBe("finished");
+	});
+
+	it("should keep fake timers in sync with the frames", () => {
+		jest.useFakeTimers();
+		installFrameClock({ advanceTimers: (ms) => jest.advanceTimersByTime(ms) });
+
+		const callback = jest.fn();
+		const { result } = renderHook(() => useDebouncedCallback(callback, 100));
+
+		act(() => result.current("value"));
+		act(() => advanceTime(90));
+		expect(callback).not.toHaveBeenCalled();
+
+		act(() => advanceTime(20));
+		expect(callback).toHaveBeenCalledWith("value");
+	});
+
+	it("should mock matchMedia, ResizeObserver and localStorage", () => {
+		const media = mockMatchMedia({ "(min-width: 600px)": false });
+		const observer = mockResizeObserver();
+		const local = mockLocalStorage({ theme: JSON.stringify("dark") });
+
+		const effect = jest.fn();
+		renderHook(() => useMediaQuery("(min-width: 600px)", effect));
+		act(() => media.set({ "(min-width: 600px)": true }));
+		expect(effect).toHaveBeenLastCalledWith(true);
+
+		const element = document.createElement("div");
+		const resize = jest.fn();
+		const resizeObserver = new ResizeObserver(resize);
+		resizeObserver.observe(element);
+		observer.resize(element, { width: 300, height: 120 });
+		expect(resize.mock.calls[0][0][0].contentRect.width).toBe(300);
+		expect(element.getBoundingClientRect().height).toBe(120);
+
+		resizeObserver.disconnect();
+		observer.resize(element, { width: 10, height: 10 });
+		expect(resize).toHaveBeenCalledTimes(1);
+
+		const { result: theme } = renderHook(() => useLocalStorage("theme", "light"));
+		expect(theme.current[0]).toBe("dark");
+		expect(window.localStorage).toBe(local.storage);
+
+		media.restore();
+		observer.restore();
+		local.restore();
+		expect(window.localStorage).not.toBe(local.storage);
+	});
+});
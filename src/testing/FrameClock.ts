@@ -0,0 +1,168 @@
+const FRAME_TIME = 1000 / 60;
+
+/**
+ * Tolerância de arredondamento ao dividir um intervalo em quadros.
+ */
+const EPSILON = 1e-6;
+
+export interface FrameClockOptions {
+	/** Duração de cada quadro, em milissegundos. Padrão `1000 / 60`. */
+	frameTime?: number;
+	/**
+	 * Chamada a cada quadro com o tempo avançado, para manter temporizadores falsos em sincronia com os quadros
+	 * (ex.: `jest.advanceTimersByTime`, para `useCountdown` e os hooks de debounce).
+	 */
+	advanceTimers?: (ms: number) => void;
+}
+
+/**
+ * Relógio de quadros controlado pelo teste. Substitui `requestAnimationFrame`, `cancelAnimationFrame` e `performance.now`,
+ * então `timeSincePreviousFrame` de `@ismael1361/animation` (e, com ele, `useAnimation` e os demais hooks de animação)
+ * só avança quando o teste pede.
+ */
+export class FrameClock {
+	/** Tempo atual do relógio, em milissegundos, retornado por `performance.now()`. */
+	now: number = 0;
+
+	private callbacks = new Map<number, FrameRequestCallback>();
+	private nextId = 1;
+	private originals: { requestAnimationFrame: typeof requestAnimationFrame; cancelAnimationFrame: typeof cancelAnimationFrame; now: () => number } | null = null;
+
+	constructor(private options: FrameClockOptions = {}) {}
+
+	get frameTime(): number {
+		return this.options.frameTime ?? FRAME_TIME;
+	}
+
+	/**
+	 * Quantidade de callbacks aguardando o próximo quadro.
+	 */
+	get pending(): number {
+		return this.callbacks.size;
+	}
+
+	install() {
+		if (this.originals) return;
+
+		this.originals = { requestAnimationFrame: window.requestAnimationFrame, cancelAnimationFrame: window.cancelAnimationFrame, now: performance.now };
+
+		window.requestAnimationFrame = (callback) => {
+			const id = this.nextId++;
+			this.callbacks.set(id, callback);
+			return id;
+		};
+
+		window.cancelAnimationFrame = (id) => {
+			this.callbacks.delete(id);
+		};
+
+		performance.now = () => this.now;
+	}
+
+	uninstall() {
+		if (!this.originals) return;
+
+		window.requestAnimationFrame = this.originals.requestAnimationFrame;
+		window.cancelAnimationFrame = this.originals.cancelAnimationFrame;
+		performance.now = this.originals.now;
+
+		this.originals = null;
+		this.callbacks.clear();
+	}
+
+	/**
+	 * Executa `count` quadros. Callbacks agendados durante um quadro rodam no quadro seguinte, como no navegador.
+	 */
+	advanceFrames(count: number = 1) {
+		for (let index = 0; index < count; index++) {
+			this.frame(this.frameTime);
+		}
+	}
+
+	/**
+	 * Avança `ms` milissegundos em quadros de `frameTime`. Se `ms` não for múltiplo de `frameTime`, o último quadro é menor.
+	 */
+	advanceTime(ms: number) {
+		const frames = Math.floor(ms / this.frameTime + EPSILON);
+		const rest = ms - frames * this.frameTime;
+
+		this.advanceFrames(frames);
+		if (rest > EPSILON) this.frame(rest);
+	}
+
+	private frame(delta: number) {
+		this.now += delta;
+		this.options.advanceTimers?.(delta);
+
+		const callbacks = Array.from(this.callbacks.values());
+		this.callbacks.clear();
+
+		callbacks.forEach((callback) => callback(this.now));
+	}
+}
+
+let current: FrameClock | null = null;
+
+/**
+ * Instala um relógio de quadros controlado pelo teste, substituindo o anterior, se houver. Use `uninstallFrameClock`
+ * (ex.: em `afterEach`) para restaurar as funções originais.
+ *
+ * @param {FrameClockOptions} [options={}] Duração de cada quadro (`frameTime`) e a função que avança temporizadores falsos (`advanceTimers`).
+ * @returns {FrameClock} O relógio instalado.
+ *
+ * @example
+ * ```ts
+ * import { act, renderHook } from '@testing-library/react';
+ * import { advanceTime, installFrameClock, uninstallFrameClock } from '@ismael1361/react-use/testing';
+ *
+ * beforeEach(() => installFrameClock());
+ * afterEach(() => uninstallFrameClock());
+ *
+ * it('fades in', () => {
+ *   const { result } = renderHook(() => useAnimation(function* (state) {
+ *     yield* this.timing(state.opacity, { to: 1, duration: 500 });
+ *   }, { opacity: 0 }));
+ *
+ *   act(() => advanceTime(500));
+ *
+ *   expect(result.current.state.opacity.value).toBe(1);
+ * });
+ * ```
+ */
+export const installFrameClock = (options: FrameClockOptions = {}): FrameClock => {
+	current?.uninstall();
+	current = new FrameClock(options);
+	current.install();
+	return current;
+};
+
+/**
+ * Remove o relógio instalado por `installFrameClock` e restaura `requestAnimationFrame`, `cancelAnimationFrame` e `performance.now`.
+ */
+export const uninstallFrameClock = () => {
+	current?.uninstall();
+	current = null;
+};
+
+/**
+ * O relógio instalado ou, se nenhum estiver, um novo com as opções padrão. Quadros pedidos antes da instalação usam o `requestAnimationFrame` original.
+ */
+const installed = (): FrameClock => current ?? installFrameClock();
+
+/**
+ * Executa `count` quadros no relógio instalado por `installFrameClock`. Envolva a chamada em `act` quando ela atualizar componentes.
+ *
+ * @param {number} [count=1] A quantidade de quadros.
+ */
+export const advanceFrames = (count: number = 1) => {
+	installed().advanceFrames(count);
+};
+
+/**
+ * Avança `ms` milissegundos, em quadros, no relógio instalado por `installFrameClock`. Envolva a chamada em `act` quando ela atualizar componentes.
+ *
+ * @param {number} ms O tempo a avançar, em milissegundos.
+ */
+export const advanceTime = (ms: number) => {
+	installed().advanceTime(ms);
+};
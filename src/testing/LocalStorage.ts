@@ -0,0 +1,64 @@
+export interface LocalStorageMock {
+	/** O armazenamento em memória instalado em `window.localStorage`. */
+	storage: Storage;
+	/** Restaura o `window.localStorage` original. */
+	restore(): void;
+}
+
+/**
+ * Cria um `Storage` em memória, isolado entre testes.
+ */
+const createStorage = (initial: Record<string, string>): Storage => {
+	const items = new Map(Object.entries(initial));
+
+	return {
+		get length() {
+			return items.size;
+		},
+		key: (index: number) => Array.from(items.keys())[index] ?? null,
+		getItem: (key: string) => items.get(key) ?? null,
+		setItem: (key: string, value: string) => {
+			items.set(key, String(value));
+		},
+		removeItem: (key: string) => {
+			items.delete(key);
+		},
+		clear: () => items.clear(),
+	};
+};
+
+/**
+ * Substitui `window.localStorage` por um armazenamento em memória, começando com os itens de `initial`.
+ *
+ * @param {Record<string, string>} [initial={}] Os itens iniciais, já serializados.
+ * @returns {LocalStorageMock} O armazenamento instalado (`storage`) e `restore`.
+ *
+ * @example
+ * ```ts
+ * import { renderHook } from '@testing-library/react';
+ * import { useLocalStorage } from '@ismael1361/react-use';
+ * import { mockLocalStorage } from '@ismael1361/react-use/testing';
+ *
+ * it('reads the stored theme', () => {
+ *   const local = mockLocalStorage({ theme: JSON.stringify('dark') });
+ *   const { result } = renderHook(() => useLocalStorage('theme', 'light'));
+ *
+ *   expect(result.current[0]).toBe('dark');
+ *   local.restore();
+ * });
+ * ```
+ */
+export const mockLocalStorage = (initial: Record<string, string> = {}): LocalStorageMock => {
+	const original = Object.getOwnPropertyDescriptor(window, "localStorage");
+	const storage = createStorage(initial);
+
+	Object.defineProperty(window, "localStorage", { value: storage, configurable: true, writable: true });
+
+	return {
+		storage,
+		restore() {
+			if (original) Object.defineProperty(window, "localStorage", original);
+			else delete (window as any).localStorage;
+		},
+	};
+};
@@ -0,0 +1,81 @@
+type Listener = (event: MediaQueryListEvent) => void;
+
+export interface MatchMediaMock {
+	/**
+	 * Altera o resultado de uma ou mais media queries e dispara `change` nas listas afetadas.
+	 */
+	set(matches: Record<string, boolean>): void;
+	/** Restaura o `window.matchMedia` original. */
+	restore(): void;
+}
+
+/**
+ * Substitui `window.matchMedia` por uma implementação controlada pelo teste.
+ *
+ * Cada query começa com o valor de `initial` (`false` se omitida) e pode ser alterada com `set`, que dispara o evento
+ * `change` das listas criadas para ela (tanto em `addEventListener` quanto no antigo `addListener`).
+ *
+ * @param {Record<string, boolean>} [initial={}] O resultado inicial de cada media query.
+ * @returns {MatchMediaMock} Os controles `set` e `restore`.
+ *
+ * @example
+ * ```ts
+ * import { act, renderHook } from '@testing-library/react';
+ * import { useMediaQuery } from '@ismael1361/react-use';
+ * import { mockMatchMedia } from '@ismael1361/react-use/testing';
+ *
+ * it('reacts to reduced motion', () => {
+ *   const media = mockMatchMedia({ '(prefers-reduced-motion: reduce)': false });
+ *   const effect = jest.fn();
+ *
+ *   renderHook(() => useMediaQuery('(prefers-reduced-motion: reduce)', effect));
+ *   act(() => media.set({ '(prefers-reduced-motion: reduce)': true }));
+ *
+ *   expect(effect).toHaveBeenLastCalledWith(true);
+ *   media.restore();
+ * });
+ * ```
+ */
+export const mockMatchMedia = (initial: Record<string, boolean> = {}): MatchMediaMock => {
+	const original = window.matchMedia;
+	const matches = new Map(Object.entries(initial));
+	const lists = new Map<string, { list: MediaQueryList; listeners: Set<Listener> }[]>();
+
+	window.matchMedia = (query: string): MediaQueryList => {
+		const listeners = new Set<Listener>();
+
+		const list = {
+			media: query,
+			get matches() {
+				return matches.get(query) ?? false;
+			},
+			onchange: null,
+			addEventListener: (_type: string, listener: Listener) => listeners.add(listener),
+			removeEventListener: (_type: string, listener: Listener) => listeners.delete(listener),
+			addListener: (listener: Listener) => listeners.add(listener),
+			removeListener: (listener: Listener) => listeners.delete(listener),
+			dispatchEvent: () => true,
+		} as unknown as MediaQueryList;
+
+		lists.set(query, [...(lists.get(query) ?? []), { list, listeners }]);
+		return list;
+	};
+
+	return {
+		set(values) {
+			Object.entries(values).forEach(([query, value]) => {
+				if (matches.get(query) === value) return;
+				matches.set(query, value);
+
+				lists.get(query)?.forEach(({ list, listeners }) => {
+					const event = { matches: value, media: query } as MediaQueryListEvent;
+					listeners.forEach((listener) => listener(event));
+					(list.onchange as Listener | null)?.(event);
+				});
+			});
+		},
+		restore() {
+			window.matchMedia = original;
+		},
+	};
+};
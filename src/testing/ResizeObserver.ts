@@ -0,0 +1,76 @@
+export interface ResizeObserverMock {
+	/**
+	 * Define o tamanho de um elemento e notifica os observadores que o observam, com `contentRect`, `borderBoxSize` e `contentBoxSize`.
+	 */
+	resize(element: Element, size: { width: number; height: number }): void;
+	/** Restaura o `ResizeObserver` original. */
+	restore(): void;
+}
+
+/**
+ * Substitui `window.ResizeObserver` por uma implementação controlada pelo teste, em que os elementos só "mudam de tamanho"
+ * quando o teste chama `resize`. O tamanho definido também é retornado por `getBoundingClientRect` do elemento.
+ *
+ * @returns {ResizeObserverMock} Os controles `resize` e `restore`.
+ *
+ * @example
+ * ```ts
+ * import { mockResizeObserver } from '@ismael1361/react-use/testing';
+ *
+ * it('measures the element', () => {
+ *   const observer = mockResizeObserver();
+ *   const element = document.createElement('div');
+ *   const callback = jest.fn();
+ *
+ *   new ResizeObserver(callback).observe(element);
+ *   observer.resize(element, { width: 300, height: 120 });
+ *
+ *   expect(callback.mock.calls[0][0][0].contentRect.width).toBe(300);
+ *   expect(element.getBoundingClientRect().height).toBe(120);
+ *   observer.restore();
+ * });
+ * ```
+ */
+export const mockResizeObserver = (): ResizeObserverMock => {
+	const original = window.ResizeObserver;
+	const observers = new Set<{ observer: ResizeObserver; callback: ResizeObserverCallback; targets: Set<Element> }>();
+
+	window.ResizeObserver = class {
+		constructor(callback: ResizeObserverCallback) {
+			observers.add({ observer: this as unknown as ResizeObserver, callback, targets: new Set() });
+		}
+
+		private get entry() {
+			return Array.from(observers).find(({ observer }) => observer === (this as unknown as ResizeObserver));
+		}
+
+		observe(target: Element) {
+			this.entry?.targets.add(target);
+		}
+
+		unobserve(target: Element) {
+			this.entry?.targets.delete(target);
+		}
+
+		disconnect() {
+			this.entry?.targets.clear();
+		}
+	} as unknown as typeof ResizeObserver;
+
+	return {
+		resize(element, { width, height }) {
+			const rect = { x: 0, y: 0, top: 0, left: 0, right: width, bottom: height, width, height, toJSON: () => ({}) } as DOMRectReadOnly;
+			element.getBoundingClientRect = () => rect as DOMRect;
+
+			const box = [{ inlineSize: width, blockSize: height }];
+			const entry = { target: element, contentRect: rect, borderBoxSize: box, contentBoxSize: box, devicePixelContentBoxSize: box } as ResizeObserverEntry;
+
+			observers.forEach(({ observer, callback, targets }) => {
+				if (targets.has(element)) callback([entry], observer);
+			});
+		},
+		restore() {
+			window.ResizeObserver = original;
+		},
+	};
+};
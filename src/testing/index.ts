@@ -0,0 +1,4 @@
+export * from "./FrameClock";
+export * from "./LocalStorage";
+export * from "./MatchMedia";
+export * from "./ResizeObserver";